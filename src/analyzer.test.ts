@@ -1,32 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { SessionAnalyzer } from './analyzer';
+import { SessionAnalyzer, workingStateIndices } from './analyzer';
+import { transcript } from './test-fixtures';
 
 describe('SessionAnalyzer', () => {
-  const createMessage = (type: string, content: string = "test") => 
-    JSON.stringify({ type, content });
-
-  const createCodeMessage = (type: string) => 
-    JSON.stringify({ type, content: "Here is code:\n```javascript\nconsole.log('test');\n```" });
-
-  const createErrorMessage = (type: string) => 
-    JSON.stringify({ type, content: "Error: something went wrong" });
-
-  const createToolMessage = (type: string) => 
-    JSON.stringify({ type, tool_use: { name: "Edit" } });
+  const codeReply = "Here is code:\n```javascript\nconsole.log('test');\n```";
 
   it('should identify work phases', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user", "Setup project"),
-      createMessage("assistant", "Setting up"),
-      createMessage("user", "Add feature"),
-      createCodeMessage("assistant"),
-      createToolMessage("assistant"),
-      createErrorMessage("user"),
-      createErrorMessage("assistant"),
-      createMessage("user", "Fix it"),
-      createCodeMessage("assistant"),
-    ];
+    const lines = transcript()
+      .user("Setup project")
+      .assistant("Setting up")
+      .user("Add feature")
+      .assistant(codeReply)
+      .tool("Edit", { file_path: "/src/app.ts", old_string: "a", new_string: "b" }, "File updated")
+      .user("Error: something went wrong")
+      .assistant("The error comes from a missing import")
+      .user("Fix it")
+      .assistant(codeReply)
+      .build();
 
     const analyzer = new SessionAnalyzer(lines);
     const analysis = analyzer.getAnalysis();
@@ -36,13 +26,12 @@ describe('SessionAnalyzer', () => {
   });
 
   it('should detect key messages with code', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user"),
-      createCodeMessage("assistant"),
-      createMessage("user"),
-      createMessage("assistant"),
-    ];
+    const lines = transcript()
+      .user("hi")
+      .assistant(codeReply)
+      .user("thanks")
+      .assistant("ok")
+      .build();
 
     const analyzer = new SessionAnalyzer(lines);
     const keyMessages = analyzer.findKeyMessages();
@@ -51,13 +40,12 @@ describe('SessionAnalyzer', () => {
   });
 
   it('should detect key messages with errors', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user"),
-      createMessage("assistant"),
-      createErrorMessage("user"),
-      createErrorMessage("assistant"),
-    ];
+    const lines = transcript()
+      .user("hi")
+      .assistant("ok")
+      .user("Error: something went wrong")
+      .assistant("That exception comes from the parser")
+      .build();
 
     const analyzer = new SessionAnalyzer(lines);
     const keyMessages = analyzer.findKeyMessages();
@@ -66,27 +54,89 @@ describe('SessionAnalyzer', () => {
     expect(keyMessages).toContain(4);
   });
 
-  it('should detect tool usage', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user"),
-      createToolMessage("assistant"),
-      JSON.stringify({ type: "assistant", tool_uses: [{ name: "Read" }] }),
-    ];
+  it('should read string and block-array content as prose', () => {
+    const lines = transcript()
+      .user("plain string prompt")
+      .assistant([{ type: "text", text: "first" }, { type: "text", text: "second" }])
+      .build();
 
-    const analyzer = new SessionAnalyzer(lines);
-    const analysis = analyzer.getAnalysis();
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
+
+    expect(analysis.messageDetails[0].content).toBe("plain string prompt");
+    expect(analysis.messageDetails[1].content).toBe("first\nsecond");
+  });
+
+  it('should report tool names from tool_use blocks', () => {
+    const lines = transcript()
+      .user("look around")
+      .tool("Read", { file_path: "/src/app.ts" }, "file contents")
+      .tool("Grep", { pattern: "TODO" }, "src/app.ts:3")
+      .build();
 
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
     const toolMessages = analysis.messageDetails.filter(m => m.hasTool);
-    expect(toolMessages).toHaveLength(2);
+
+    expect(toolMessages.map(m => m.toolNames)).toEqual([["Read"], ["Grep"]]);
+    expect(analysis.messageDetails.filter(m => m.hasToolResult)).toHaveLength(2);
+    expect(analysis.messageDetails.some(m => m.hasFileEdit)).toBe(false);
+  });
+
+  it('should report edited file paths for Edit, Write, MultiEdit and NotebookEdit', () => {
+    const lines = transcript()
+      .tool("Edit", { file_path: "/src/a.ts", old_string: "x", new_string: "y" }, "ok")
+      .tool("Write", { file_path: "/src/b.ts", content: "export {}" }, "ok")
+      .tool("MultiEdit", { file_path: "/src/c.ts", edits: [] }, "ok")
+      .tool("NotebookEdit", { notebook_path: "/nb.ipynb", new_source: "" }, "ok")
+      .build();
+
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
+    const edits = analysis.messageDetails.filter(m => m.hasFileEdit);
+
+    expect(edits.map(m => m.editedFiles)).toEqual([["/src/a.ts"], ["/src/b.ts"], ["/src/c.ts"], ["/nb.ipynb"]]);
+  });
+
+  it('should flag tool_results marked is_error', () => {
+    const lines = transcript()
+      .tool("Bash", { command: "npm test" }, "1 passing")
+      .tool("Bash", { command: "npm run build" }, "exit code 2", { isError: true })
+      .build();
+
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
+    const results = analysis.messageDetails.filter(m => m.hasToolResult);
+
+    expect(results.map(m => m.hasError)).toEqual([false, true]);
+  });
+
+  it('should not treat words inside tool output as errors', () => {
+    const lines = transcript()
+      .tool("Grep", { pattern: "error" }, "src/errors.ts: export class ParseError")
+      .build();
+
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
+
+    expect(analysis.messageDetails.some(m => m.hasError)).toBe(false);
+  });
+
+  it('should detect thinking and image blocks', () => {
+    const lines = transcript()
+      .image("image/png")
+      .thinking("Let me consider the layout")
+      .tool("Read", { file_path: "/shot.png" }, [
+        { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } }
+      ])
+      .build();
+
+    const analysis = new SessionAnalyzer(lines).getAnalysis();
+
+    expect(analysis.messageDetails.map(m => m.hasImage)).toEqual([true, false, false, true]);
+    expect(analysis.messageDetails.map(m => m.hasThinking)).toEqual([false, true, false, false]);
   });
 
   it('should estimate tokens', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user", "a".repeat(100)),
-      createMessage("assistant", "b".repeat(100)),
-    ];
+    const lines = transcript()
+      .user("a".repeat(100))
+      .assistant("b".repeat(100))
+      .build();
 
     const analyzer = new SessionAnalyzer(lines);
     const analysis = analyzer.getAnalysis();
@@ -96,7 +146,7 @@ describe('SessionAnalyzer', () => {
   });
 
   it('should handle empty session', () => {
-    const lines = [JSON.stringify({ type: "metadata" })];
+    const lines = transcript().build();
 
     const analyzer = new SessionAnalyzer(lines);
     const analysis = analyzer.getAnalysis();
@@ -106,42 +156,38 @@ describe('SessionAnalyzer', () => {
     expect(analysis.keyMessages).toHaveLength(0);
   });
 
-  it('should classify phases correctly', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      // Setup phase
-      createMessage("user", "Create a new project"),
-      createMessage("assistant", "Creating project"),
-      // Error phase
-      createErrorMessage("user"),
-      createErrorMessage("assistant"),
-      createErrorMessage("user"),
-      createErrorMessage("assistant"),
-      // Implementation phase
-      createCodeMessage("assistant"),
-      createToolMessage("assistant"),
-      createCodeMessage("assistant"),
-    ];
+  it('should classify an editing-heavy window as implementation', () => {
+    const builder = transcript();
+    for (let i = 0; i < 5; i++) {
+      builder.tool("Edit", { file_path: `/src/f${i}.ts`, old_string: "a", new_string: "b" }, "ok");
+    }
 
-    const analyzer = new SessionAnalyzer(lines);
-    const phases = analyzer.detectWorkPhases();
+    const phases = new SessionAnalyzer(builder.build()).detectWorkPhases();
 
-    const hasSetupPhase = phases.some(p => p.description.includes('setup') || p.description.includes('Discussion'));
-    const hasErrorPhase = phases.some(p => p.description.includes('Debugging') || p.description.includes('error'));
-    const hasImplPhase = phases.some(p => p.description.includes('Implementation') || p.description.includes('coding'));
+    expect(phases).toHaveLength(1);
+    expect(phases[0].description).toBe('Implementation and coding');
+    expect(phases[0].characteristics.fileEdits).toBe(5);
+  });
 
-    expect(hasSetupPhase || hasErrorPhase || hasImplPhase).toBe(true);
+  it('should classify read-only tool traffic as exploration', () => {
+    const builder = transcript();
+    for (let i = 0; i < 5; i++) {
+      builder.tool("Read", { file_path: `/src/f${i}.ts` }, "contents");
+    }
+
+    const phases = new SessionAnalyzer(builder.build()).detectWorkPhases();
+
+    expect(phases[0].description).toBe('Exploration and file reading');
   });
 
   it('should return correct message indices', () => {
-    const lines = [
-      JSON.stringify({ type: "metadata" }),
-      createMessage("user"),
-      JSON.stringify({ type: "tool_result" }),
-      createMessage("assistant"),
-      "non-json line",
-      createMessage("user"),
-    ];
+    const lines = transcript()
+      .user("hi")
+      .raw(JSON.stringify({ type: "file-history-snapshot", snapshot: {} }))
+      .assistant("hello")
+      .raw("non-json line")
+      .user("bye")
+      .build();
 
     const analyzer = new SessionAnalyzer(lines);
     const messageIndices = analyzer.getMessageIndices();
@@ -150,4 +196,139 @@ describe('SessionAnalyzer', () => {
     expect(messageIndices).toEqual([1, 3, 5]);
     expect(assistantIndices).toEqual([3]);
   });
-});
\ No newline at end of file
+
+  it('should locate where the last N turns begin', () => {
+    const lines = transcript()
+      .user("first")
+      .assistant("ok")
+      .user("second")
+      .tool("Bash", { command: "ls" }, "a.ts")
+      .user("third")
+      .build();
+
+    const analyzer = new SessionAnalyzer(lines);
+
+    expect(analyzer.recentTurnsStart(1)).toBe(6);
+    expect(analyzer.recentTurnsStart(2)).toBe(3);
+    expect(analyzer.recentTurnsStart(5)).toBe(0);
+    expect(analyzer.recentTurnsStart(0)).toBe(Infinity);
+  });
+
+  describe('getTurns', () => {
+    const lines = transcript()
+      .assistant("Resuming where we left off")
+      .user("Add a login page")
+      .tool("Write", { file_path: "/src/login.ts", content: "" }, "ok")
+      .user("Review it", { isSidechain: true })
+      .assistant("Looks fine", { isSidechain: true })
+      .user("<command-name>/cost</command-name>", { isMeta: true })
+      .user("Now add tests")
+      .assistant("Done")
+      .build();
+    const analyzer = new SessionAnalyzer(lines);
+
+    it('should open a turn at each real prompt and number them from 1', () => {
+      expect(analyzer.getTurns().map(t => [t.number, t.promptIndex, t.indices])).toEqual([
+        [0, undefined, [1]],
+        [1, 2, [2, 3, 4, 5, 6, 7]],
+        [2, 8, [8, 9]]
+      ]);
+    });
+
+    it('should expand message lines to their whole turns', () => {
+      expect(analyzer.getTurnOf(5)?.number).toBe(1);
+      expect(analyzer.expandToTurns([9, 1])).toEqual([1, 8, 9]);
+    });
+
+    it('should map phases to the whole turns they touch', () => {
+      const phase = (start: number, end: number) => ({
+        start, end, description: 'Work', messageCount: end - start + 1,
+        characteristics: { codeBlocks: 0, errors: 0, fileEdits: 0, toolUses: 0 }
+      });
+
+      // Message positions 3-4 are lines 4-5, in the middle of turn 1
+      expect(analyzer.phaseIndices([phase(3, 4)])).toEqual([2, 3, 4, 5, 6, 7]);
+      expect(analyzer.phaseIndices([phase(0, 0), phase(8, 8)])).toEqual([1, 8, 9]);
+    });
+  });
+
+  describe('findStaleReads', () => {
+    it('should mark earlier reads of a file that was read again', () => {
+      const lines = transcript()
+        .tool("Read", { file_path: "/src/app.ts" }, "v1")
+        .tool("Read", { file_path: "/src/other.ts" }, "other")
+        .tool("Read", { file_path: "/src/app.ts" }, "v1 again")
+        .build();
+
+      const stale = new SessionAnalyzer(lines).findStaleReads();
+
+      expect(stale).toEqual([
+        { path: "/src/app.ts", toolUseId: "toolu_0001", readIndex: 1, resultIndex: 2, supersededBy: "read", tokens: 1 }
+      ]);
+    });
+
+    it('should mark reads of a file that was later edited or rewritten', () => {
+      const lines = transcript()
+        .tool("Read", { file_path: "/src/app.ts" }, "x".repeat(400))
+        .tool("Read", { file_path: "/src/app.ts" }, "x".repeat(400))
+        .tool("Edit", { file_path: "/src/app.ts", old_string: "x", new_string: "y" }, "ok")
+        .tool("Write", { file_path: "/src/app.ts", content: "new" }, "ok")
+        .build();
+
+      const stale = new SessionAnalyzer(lines).findStaleReads();
+
+      expect(stale.map(r => [r.resultIndex, r.supersededBy, r.tokens])).toEqual([
+        [2, "read", 100],
+        [4, "edit", 100]
+      ]);
+    });
+
+    it('should not let a partial read supersede a full one', () => {
+      const lines = transcript()
+        .tool("Read", { file_path: "/src/app.ts" }, "whole file")
+        .tool("Read", { file_path: "/src/app.ts", offset: 100, limit: 20 }, "a slice")
+        .build();
+
+      expect(new SessionAnalyzer(lines).findStaleReads()).toEqual([]);
+    });
+
+    it('should treat `cat` commands as reads, resolving relative paths', () => {
+      const lines = transcript("/work")
+        .tool("Bash", { command: "cat src/app.ts" }, "contents")
+        .tool("Bash", { command: "cat src/app.ts | head" }, "piped, not a plain read")
+        .tool("Read", { file_path: "/work/src/app.ts" }, "contents")
+        .build();
+
+      const stale = new SessionAnalyzer(lines).findStaleReads();
+
+      expect(stale.map(r => [r.path, r.readIndex])).toEqual([["/work/src/app.ts", 1]]);
+    });
+  });
+
+  describe('findWorkingState', () => {
+    it('should find the latest todo list and the last approved plan', () => {
+      const lines = transcript()
+        .tool("ExitPlanMode", { plan: "1. Parse CSV" }, "User has approved your plan")
+        .tool("TodoWrite", { todos: [{ content: "Parse", status: "pending" }] }, "Todos updated")
+        .tool("ExitPlanMode", { plan: "2. Stream it" }, "The user doesn't want to proceed", { isError: true })
+        .tool("TodoWrite", { todos: [{ content: "Parse", status: "completed" }] }, "Todos updated")
+        .build();
+
+      const state = new SessionAnalyzer(lines).findWorkingState();
+
+      expect(state).toEqual({
+        todo: { toolUseId: "toolu_0004", useIndex: 7, resultIndex: 8 },
+        plan: { toolUseId: "toolu_0001", useIndex: 1, resultIndex: 2 }
+      });
+      expect(workingStateIndices(state)).toEqual([1, 2, 7, 8]);
+    });
+
+    it('should ignore calls still waiting for their result', () => {
+      const lines = transcript()
+        .assistant([{ type: "tool_use", id: "toolu_plan", name: "ExitPlanMode", input: { plan: "Refactor" } }])
+        .build();
+
+      expect(new SessionAnalyzer(lines).findWorkingState()).toEqual({});
+    });
+  });
+});
@@ -1,15 +1,67 @@
+import { posix } from 'path';
 import { MSG_TYPES } from './types';
+import {
+  getContentBlocks,
+  getEditedFile,
+  getText,
+  getToolResultText,
+  getToolResults,
+  getToolUses,
+  type ContentBlock,
+  type ToolUseBlock
+} from './content';
+import { TokenAccountant } from './tokens';
+import { hasPinMarker } from './pins';
 
 export interface MessageInfo {
   index: number;
   type: string;
-  content?: string;
+  uuid?: string;
+  content?: string; // Prose only; tool traffic is described by the fields below
+  blocks: ContentBlock[];
+  toolNames: string[];
+  editedFiles: string[];
   hasCode: boolean;
   hasError: boolean;
   hasFileEdit: boolean;
   hasTool: boolean;
+  hasToolResult: boolean;
+  hasThinking: boolean;
+  hasImage: boolean;
+  isPrompt: boolean; // Something the user typed, as opposed to tool results or meta lines
+  isPinned: boolean; // Kept by every prune, see pins.ts
   length: number;
   timestamp?: string;
+  cwd?: string;
+}
+
+export interface StaleRead {
+  path: string;
+  toolUseId: string;
+  readIndex: number;   // Line with the Read/cat tool_use
+  resultIndex: number; // Line with its tool_result
+  supersededBy: 'read' | 'edit';
+  tokens: number;      // Estimated size of the stale result
+}
+
+export interface StateSnapshot {
+  toolUseId: string;
+  useIndex: number;     // Line with the tool_use
+  resultIndex: number;  // Line with its tool_result
+}
+
+// What Claude needs to carry on where it left off: its todo list and the plan the user approved
+export interface WorkingState {
+  todo?: StateSnapshot; // Latest successful TodoWrite
+  plan?: StateSnapshot; // Last ExitPlanMode the user approved
+}
+
+export interface Turn {
+  number: number;       // 1-based; 0 for messages before the first prompt
+  promptIndex?: number; // Line of the user prompt that opens the turn
+  start: number;        // First and last line index of the turn
+  end: number;
+  indices: number[];    // Message lines in the turn
 }
 
 export interface WorkPhase {
@@ -33,14 +85,37 @@ export interface SessionAnalysis {
   messageDetails: MessageInfo[];
 }
 
+/** The lines a working state keeps: each snapshot's tool_use and tool_result. */
+export function workingStateIndices(state: WorkingState = {}): number[] {
+  return Object.values(state).flatMap(snapshot => [snapshot.useIndex, snapshot.resultIndex]);
+}
+
+/** One-word name for a phase description, as shown in the UI and matched by `phase:` selections. */
+export function shortPhaseName(description: string): string {
+  if (description.includes('setup') || description.includes('requirements')) return 'Setup';
+  if (description.includes('Implementation') || description.includes('coding')) return 'Build';
+  if (description.includes('Debugging') || description.includes('error')) return 'Debug';
+  if (description.includes('Discussion') || description.includes('planning')) return 'Plan';
+  if (description.includes('Exploration')) return 'Explore';
+  return 'Work';
+}
+
 export class SessionAnalyzer {
   private lines: string[];
   private messageIndices: number[] = [];
   private assistantIndices: number[] = [];
   private messageDetails: MessageInfo[] = [];
+  private turns: Turn[] = [];
+  private turnOf = new Map<number, Turn>();
+  private tokens: TokenAccountant;
+  private pinnedUuids: Set<string>;
+  private pinned = new Set<number>();
 
-  constructor(lines: string[]) {
+  /** `pinnedUuids` are the session's sidecar pins; `#pin` markers are found in the lines. */
+  constructor(lines: string[], pinnedUuids: Iterable<string> = []) {
     this.lines = lines;
+    this.pinnedUuids = new Set(pinnedUuids);
+    this.tokens = new TokenAccountant(lines);
     this.analyze();
   }
 
@@ -58,46 +133,88 @@ export class SessionAnalyzer {
             this.assistantIndices.push(index);
           }
 
+          const blocks = getContentBlocks(obj);
+          const toolUses = getToolUses(obj);
+          const editedFiles = toolUses
+            .map(getEditedFile)
+            .filter((f): f is string => !!f);
+
+          const text = getText(obj);
+          const hasToolResult = getToolResults(obj).length > 0;
+
           const info: MessageInfo = {
             index,
             type: obj.type,
-            content: obj.content || obj.message?.content || '',
+            uuid: obj.uuid,
+            content: text,
+            blocks,
+            toolNames: toolUses.map(b => b.name),
+            editedFiles,
             hasCode: this.detectCode(obj),
             hasError: this.detectError(obj),
-            hasFileEdit: this.detectFileEdit(obj),
-            hasTool: this.detectToolUse(obj),
+            hasFileEdit: editedFiles.length > 0,
+            hasTool: toolUses.length > 0,
+            hasToolResult,
+            hasThinking: blocks.some(b => b.type === 'thinking'),
+            hasImage: this.detectImage(blocks),
+            isPrompt: obj.type === 'user' && !obj.isMeta && !obj.isCompactSummary && !obj.isSidechain &&
+              !hasToolResult && text.trim().length > 0,
+            isPinned: hasPinMarker(obj) || (typeof obj.uuid === 'string' && this.pinnedUuids.has(obj.uuid)),
             length: JSON.stringify(obj).length,
-            timestamp: obj.timestamp
+            timestamp: obj.timestamp,
+            cwd: obj.cwd
           };
           
           this.messageDetails.push(info);
+          if (info.isPinned) this.pinned.add(index);
         }
       } catch {
         // Not JSON or not a message, skip
       }
     });
+
+    this.groupTurns();
+  }
+
+  /** One turn per real user prompt, holding everything up to the next prompt. */
+  private groupTurns(): void {
+    let prompts = 0;
+    for (const msg of this.messageDetails) {
+      let turn = this.turns[this.turns.length - 1];
+      if (msg.isPrompt || !turn) {
+        turn = {
+          number: msg.isPrompt ? ++prompts : 0,
+          promptIndex: msg.isPrompt ? msg.index : undefined,
+          start: msg.index,
+          end: msg.index,
+          indices: []
+        };
+        this.turns.push(turn);
+      }
+      turn.indices.push(msg.index);
+      turn.end = msg.index;
+      this.turnOf.set(msg.index, turn);
+    }
   }
 
   private detectCode(obj: any): boolean {
-    const content = obj.content || obj.message?.content || '';
+    const content = getText(obj);
     return /```[\s\S]*?```/.test(content) || 
            /^\s*(import|export|function|class|const|let|var)\s+/m.test(content);
   }
 
   private detectError(obj: any): boolean {
-    const content = (obj.content || obj.message?.content || '').toLowerCase();
-    return /error|exception|failed|failure|bug|issue|problem/.test(content) ||
-           (obj.error && obj.error.length > 0);
-  }
+    if (getToolResults(obj).some(b => b.is_error)) return true;
 
-  private detectFileEdit(obj: any): boolean {
-    return obj.tool_use?.name === 'Edit' || 
-           obj.tool_use?.name === 'Write' ||
-           obj.tool_use?.name === 'MultiEdit';
+    const content = getText(obj).toLowerCase();
+    return /error|exception|failed|failure|bug|issue|problem/.test(content);
   }
 
-  private detectToolUse(obj: any): boolean {
-    return !!obj.tool_use || !!obj.tool_uses;
+  private detectImage(blocks: ContentBlock[]): boolean {
+    return blocks.some(b =>
+      b.type === 'image' ||
+      (b.type === 'tool_result' && Array.isArray(b.content) && b.content.some(c => c?.type === 'image'))
+    );
   }
 
   public detectWorkPhases(): WorkPhase[] {
@@ -205,6 +322,107 @@ export class SessionAnalyzer {
     return merged;
   }
 
+  /**
+   * The latest todo list and the last approved plan. A TodoWrite or
+   * ExitPlanMode only counts once its result is in and is not an error; a
+   * rejected plan comes back as an error.
+   */
+  public findWorkingState(): WorkingState {
+    const results = new Map<string, { index: number; isError: boolean }>();
+    for (const msg of this.messageDetails) {
+      for (const block of msg.blocks) {
+        if (block.type === 'tool_result') results.set(block.tool_use_id, { index: msg.index, isError: !!block.is_error });
+      }
+    }
+
+    const state: WorkingState = {};
+    for (const msg of this.messageDetails) {
+      for (const block of msg.blocks) {
+        if (block.type !== 'tool_use' || (block.name !== 'TodoWrite' && block.name !== 'ExitPlanMode')) continue;
+        const result = results.get(block.id);
+        if (!result || result.isError) continue;
+
+        const snapshot = { toolUseId: block.id, useIndex: msg.index, resultIndex: result.index };
+        if (block.name === 'TodoWrite') state.todo = snapshot;
+        else state.plan = snapshot;
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Earlier Read (or `cat`) results for a file that was later read again in
+   * full, or rewritten by Edit/Write/MultiEdit. Only the latest view matters.
+   */
+  public findStaleReads(): StaleRead[] {
+    const resultLines = new Map<string, { index: number; text: string }>();
+    this.messageDetails.forEach(msg => {
+      msg.blocks.forEach(b => {
+        if (b.type === 'tool_result') {
+          resultLines.set(b.tool_use_id, { index: msg.index, text: getToolResultText(b) });
+        }
+      });
+    });
+
+    const openReads = new Map<string, Array<{ toolUseId: string; readIndex: number }>>();
+    const stale: StaleRead[] = [];
+
+    const supersede = (path: string, by: 'read' | 'edit') => {
+      for (const read of openReads.get(path) || []) {
+        const result = resultLines.get(read.toolUseId);
+        if (!result) continue;
+        stale.push({
+          path,
+          toolUseId: read.toolUseId,
+          readIndex: read.readIndex,
+          resultIndex: result.index,
+          supersededBy: by,
+          tokens: this.tokens.charsToTokens(result.text.length)
+        });
+      }
+      openReads.delete(path);
+    };
+
+    for (const msg of this.messageDetails) {
+      for (const block of msg.blocks) {
+        if (block.type !== 'tool_use') continue;
+
+        const edited = getEditedFile(block);
+        if (edited) {
+          supersede(edited, 'edit');
+          continue;
+        }
+
+        const read = this.describeFileRead(block, msg.cwd);
+        if (!read) continue;
+
+        // A partial read (offset/limit) doesn't replace what came before it
+        if (read.full) supersede(read.path, 'read');
+        openReads.set(read.path, [...(openReads.get(read.path) || []), { toolUseId: block.id, readIndex: msg.index }]);
+      }
+    }
+
+    return stale.sort((a, b) => a.resultIndex - b.resultIndex);
+  }
+
+  private describeFileRead(block: ToolUseBlock, cwd?: string): { path: string; full: boolean } | null {
+    if (block.name === 'Read' && typeof block.input?.file_path === 'string') {
+      return {
+        path: block.input.file_path,
+        full: block.input.offset === undefined && block.input.limit === undefined
+      };
+    }
+
+    if (block.name === 'Bash' && typeof block.input?.command === 'string') {
+      const match = /^\s*cat\s+(?:-\w+\s+)*("[^"]+"|'[^']+'|[^\s|;&<>]+)\s*$/.exec(block.input.command);
+      if (!match) return null;
+      const path = match[1].replace(/^["']|["']$/g, '');
+      return { path: cwd ? posix.resolve(cwd, path) : path, full: true };
+    }
+
+    return null;
+  }
+
   public findKeyMessages(): number[] {
     // Score each message based on importance
     const scored = this.messageDetails.map(msg => ({
@@ -241,10 +459,45 @@ export class SessionAnalyzer {
     return score;
   }
 
+  public getMessageScores(): Map<number, number> {
+    return new Map(this.messageDetails.map(msg => [msg.index, this.scoreMessage(msg)]));
+  }
+
   public estimateTokens(): number {
-    // Rough estimation: ~4 characters per token
-    const totalChars = this.lines.join('').length;
-    return Math.floor(totalChars / 4);
+    return this.tokens.contextTokens();
+  }
+
+  public estimateLineTokens(index: number): number {
+    return this.tokens.lineTokens(index);
+  }
+
+  /** Projected context size if only these messages (plus pinned messages and all non-message lines) were kept. */
+  public projectTokens(indicesToKeep: number[]): number {
+    const messageSet = new Set(this.messageIndices);
+    const kept = new Set([...indicesToKeep, ...this.pinned]);
+    const lines = this.lines.map((_, i) => i).filter(i => !messageSet.has(i) || kept.has(i));
+    return this.tokens.projectIndices(lines);
+  }
+
+  public getPinnedIndices(): number[] {
+    return [...this.pinned];
+  }
+
+  public isPinned(index: number): boolean {
+    return this.pinned.has(index);
+  }
+
+  /** A keep-set with the pinned messages added, as the pruner will apply it. */
+  public withPinned(indices: number[]): number[] {
+    return [...new Set([...indices, ...this.pinned])].sort((a, b) => a - b);
+  }
+
+  public getTokenAccountant(): TokenAccountant {
+    return this.tokens;
+  }
+
+  public getLineCount(): number {
+    return this.lines.length;
   }
 
   public getAnalysis(): SessionAnalysis {
@@ -257,6 +510,10 @@ export class SessionAnalyzer {
     };
   }
 
+  public getMessageDetails(): MessageInfo[] {
+    return this.messageDetails;
+  }
+
   public getMessageIndices(): number[] {
     return this.messageIndices;
   }
@@ -264,4 +521,45 @@ export class SessionAnalyzer {
   public getAssistantIndices(): number[] {
     return this.assistantIndices;
   }
+
+  public getPromptIndices(): number[] {
+    return this.messageDetails.filter(m => m.isPrompt).map(m => m.index);
+  }
+
+  public getTurns(): Turn[] {
+    return this.turns;
+  }
+
+  public getTurnOf(index: number): Turn | undefined {
+    return this.turnOf.get(index);
+  }
+
+  /** Grow a set of message lines to the whole turns they belong to. */
+  public expandToTurns(indices: Iterable<number>): number[] {
+    const turns = new Set<Turn>();
+    for (const i of indices) {
+      const turn = this.turnOf.get(i);
+      if (turn) turns.add(turn);
+    }
+    return [...turns].flatMap(t => t.indices).sort((a, b) => a - b);
+  }
+
+  /**
+   * Message lines of the given phases, grown to whole turns: phase boundaries
+   * can fall inside a turn, and a kept turn keeps its prompt and replies.
+   */
+  public phaseIndices(phases: WorkPhase[]): number[] {
+    const messageIndices = this.getMessageIndices();
+    return this.expandToTurns(phases.flatMap(phase => messageIndices.slice(phase.start, phase.end + 1)));
+  }
+
+  /**
+   * Line index where the last `turns` user turns begin. Everything is recent
+   * when the session has fewer turns; nothing is when `turns` is 0.
+   */
+  public recentTurnsStart(turns: number): number {
+    if (turns <= 0) return Infinity;
+    const prompts = this.getPromptIndices();
+    return prompts.length >= turns ? prompts[prompts.length - turns] : 0;
+  }
 }
\ No newline at end of file
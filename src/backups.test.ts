@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import fs from 'fs-extra';
+import {
+  createBackup,
+  deleteBackups,
+  describeDropped,
+  diffTranscripts,
+  hashContent,
+  listBackups,
+  migrateBackups,
+  parseBackupName,
+  readBackup,
+  resolveBackup,
+  selectExpiredBackups,
+  verifyBackup,
+  type BackupInfo
+} from './backups';
+import { VERSION } from './version';
+
+function backup(timestamp: number): BackupInfo {
+  return {
+    sessionId: 'abc',
+    name: `abc.jsonl.${timestamp}.snap.gz`,
+    path: `/backups/abc.jsonl.${timestamp}.snap.gz`,
+    timestamp,
+    size: 100,
+    format: 'snapshot'
+  };
+}
+
+describe('parseBackupName', () => {
+  it('should recognize snapshots and plain copies of the session only', () => {
+    expect(parseBackupName('abc.jsonl.1000.snap.gz', 'abc')).toEqual({ timestamp: 1000, format: 'snapshot' });
+    expect(parseBackupName('abc.jsonl.1000', 'abc')).toEqual({ timestamp: 1000, format: 'plain' });
+    expect(parseBackupName('abc.jsonl.1000.json', 'abc')).toBeNull();
+    expect(parseBackupName('abcd.jsonl.1000', 'abc')).toBeNull();
+    expect(parseBackupName('abc.pack.gz', 'abc')).toBeNull();
+  });
+});
+
+describe('backup store', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'claude-prune-backups-'));
+    file = join(dir, 'abc.jsonl');
+    await fs.writeFile(file, '{"type":"summary"}\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should snapshot the session and record a manifest', async () => {
+    const first = await createBackup(file, 'abc', { strategy: 'Keep last 4 turns' });
+    const second = await createBackup(file, 'abc', { strategy: 'recent' });
+
+    expect(second.timestamp).toBeGreaterThan(first.timestamp);
+    const backups = await listBackups(file, 'abc');
+    expect(backups.map(b => b.name)).toEqual([second.name, first.name]);
+    expect(backups[1]).toMatchObject({ format: 'snapshot', size: 19 });
+    expect(backups[1].manifest).toMatchObject({ strategy: 'Keep last 4 turns', version: VERSION, sourceBytes: 19 });
+    expect((await readBackup(backups[1])).toString('utf8')).toBe('{"type":"summary"}\n');
+  });
+
+  it('should store each distinct line once across snapshots', async () => {
+    await fs.writeFile(file, 'a\r\nb\nb\n');
+    const first = await createBackup(file, 'abc', { strategy: 'one' });
+    await fs.writeFile(file, 'b\nc');
+    const second = await createBackup(file, 'abc', { strategy: 'two' });
+
+    const pack = gunzipSync(await fs.readFile(join(dir, 'prune-backup', 'abc.pack.gz'))).toString('utf8');
+    expect(pack.split('\n').sort()).toEqual(['', '', 'a\r', 'b', 'c']);
+    expect((await readBackup(first)).toString('utf8')).toBe('a\r\nb\nb\n');
+    expect((await readBackup(second)).toString('utf8')).toBe('b\nc');
+  });
+
+  it('should back up the content the caller read rather than the file as it is now', async () => {
+    const read = await fs.readFile(file);
+    await fs.appendFile(file, '{"type":"user"}\n');
+
+    const backup = await createBackup(file, 'abc', { strategy: 'recent' }, read);
+
+    expect((await readBackup(backup)).toString('utf8')).toBe('{"type":"summary"}\n');
+    expect(backup.manifest?.sourceHash).toBe(hashContent(read));
+  });
+
+  it('should record the options, dropped messages, tokens and source hash', async () => {
+    const created = await createBackup(file, 'abc', {
+      strategy: 'recent',
+      options: { ratio: 0.3 },
+      dropped: { indices: [1], uuids: ['u1'] },
+      tokens: { before: 1000, after: 400 }
+    });
+
+    const [listed] = await listBackups(file, 'abc');
+
+    expect(listed.manifest).toEqual({
+      version: VERSION,
+      sourceHash: hashContent('{"type":"summary"}\n'),
+      sourceBytes: 19,
+      strategy: 'recent',
+      options: { ratio: 0.3 },
+      dropped: { indices: [1], uuids: ['u1'] },
+      tokens: { before: 1000, after: 400 }
+    });
+    expect(await verifyBackup(created)).toBe(true);
+
+    await fs.remove(join(dir, 'prune-backup', 'abc.pack.gz'));
+    expect(await verifyBackup(created)).toBe(false);
+  });
+
+  it('should read plain backups, ignore other sessions and tolerate missing manifests', async () => {
+    const backupDir = join(dir, 'prune-backup');
+    await fs.outputFile(join(backupDir, 'abc.jsonl.1000'), 'x');
+    await fs.outputFile(join(backupDir, 'abcd.jsonl.2000'), 'y');
+    await fs.outputFile(join(backupDir, 'abc.jsonl.1000.json'), '{not json');
+
+    const backups = await listBackups(file, 'abc');
+
+    expect(backups.map(b => b.name)).toEqual(['abc.jsonl.1000']);
+    expect(backups[0]).toMatchObject({ format: 'plain', size: 1 });
+    expect(backups[0].manifest).toBeUndefined();
+    expect((await readBackup(backups[0])).toString('utf8')).toBe('x');
+  });
+
+  it('should delete backups with their manifests and drop unreferenced pack lines', async () => {
+    const old = await createBackup(file, 'abc', { strategy: 'old' });
+    await fs.writeFile(file, '{"type":"summary"}\n{"type":"user"}\n');
+    const kept = await createBackup(file, 'abc', { strategy: 'kept' });
+    await fs.writeFile(file, 'gone\n');
+    const gone = await createBackup(file, 'abc', { strategy: 'gone' });
+
+    const freed = await deleteBackups(file, 'abc', [old, gone]);
+
+    expect(freed).toBeGreaterThan(0);
+    expect((await listBackups(file, 'abc')).map(b => b.name)).toEqual([kept.name]);
+    expect(await fs.pathExists(join(dir, 'prune-backup', `abc.jsonl.${gone.timestamp}.json`))).toBe(false);
+    expect((await readBackup(kept)).toString('utf8')).toBe('{"type":"summary"}\n{"type":"user"}\n');
+    const pack = gunzipSync(await fs.readFile(join(dir, 'prune-backup', 'abc.pack.gz'))).toString('utf8');
+    expect(pack).not.toContain('gone');
+
+    await deleteBackups(file, 'abc', [kept]);
+    expect(await fs.readdir(join(dir, 'prune-backup'))).toEqual([]);
+  });
+
+  it('should migrate plain backups into snapshots, keeping their manifests', async () => {
+    const backupDir = join(dir, 'prune-backup');
+    await fs.outputFile(join(backupDir, 'abc.jsonl.1000'), 'line one\nline two\n');
+    await fs.outputFile(join(backupDir, 'abc.jsonl.2000'), 'line two\n');
+    await fs.writeJson(join(backupDir, 'abc.jsonl.2000.json'), { version: '2.0.1', sourceHash: 'x', strategy: 'recent' });
+
+    const migrated = await migrateBackups(file, 'abc');
+
+    expect(migrated.map(b => b.timestamp)).toEqual([1000, 2000]);
+    const backups = await listBackups(file, 'abc');
+    expect(backups.map(b => b.name)).toEqual(['abc.jsonl.2000.snap.gz', 'abc.jsonl.1000.snap.gz']);
+    expect(backups[0].manifest).toMatchObject({ strategy: 'recent', sourceBytes: 9 });
+    expect(backups[1].manifest).toMatchObject({ strategy: 'Not recorded (migrated)', sourceHash: hashContent('line one\nline two\n') });
+    expect((await readBackup(backups[1])).toString('utf8')).toBe('line one\nline two\n');
+    expect(await migrateBackups(file, 'abc')).toEqual([]);
+  });
+
+  it('should return nothing without a backup directory', async () => {
+    expect(await listBackups(file, 'abc')).toEqual([]);
+  });
+});
+
+describe('describeDropped', () => {
+  it('should pair indices with the uuids of the dropped lines', () => {
+    const lines = ['{"type":"summary"}', '{"type":"user","uuid":"u1"}', '{"type":"user"}', '{"type":"assistant","uuid":"a1"}'];
+
+    expect(describeDropped(lines, [1, 2, 3])).toEqual({ indices: [1, 2, 3], uuids: ['u1', 'a1'] });
+  });
+});
+
+describe('resolveBackup', () => {
+  const t1 = Date.parse('2025-01-01T10:00:00Z');
+  const t2 = Date.parse('2025-01-02T10:00:00Z');
+  const backups = [backup(t2), backup(t1)];
+
+  it('should pick by position, newest first', () => {
+    expect(resolveBackup(backups, '1')).toBe(backups[0]);
+    expect(resolveBackup(backups, '2')).toBe(backups[1]);
+    expect(resolveBackup(backups, '3')).toBeUndefined();
+  });
+
+  it('should pick by name or timestamp', () => {
+    expect(resolveBackup(backups, `abc.jsonl.${t1}`)).toBe(backups[1]);
+    expect(resolveBackup(backups, `abc.jsonl.${t1}.snap.gz`)).toBe(backups[1]);
+    expect(resolveBackup(backups, String(t1))).toBe(backups[1]);
+  });
+
+  it('should pick the newest backup at or before a date', () => {
+    expect(resolveBackup(backups, '2025-01-01T12:00:00Z')).toBe(backups[1]);
+    expect(resolveBackup(backups, '2025-01-03')).toBe(backups[0]);
+    expect(resolveBackup(backups, '2024-12-31')).toBeUndefined();
+    expect(resolveBackup(backups, 'yesterday')).toBeUndefined();
+  });
+});
+
+describe('selectExpiredBackups', () => {
+  const day = 86_400_000;
+  const now = 100 * day;
+  const backups = [backup(now - day), backup(now - 10 * day), backup(now - 40 * day), backup(now - 50 * day)];
+
+  it('should keep the newest backups', () => {
+    expect(selectExpiredBackups(backups, { keepLast: 3 }, now)).toEqual([backups[3]]);
+  });
+
+  it('should only expire old backups', () => {
+    expect(selectExpiredBackups(backups, { olderThan: 30 * day }, now)).toEqual([backups[2], backups[3]]);
+  });
+
+  it('should require both conditions when combined', () => {
+    expect(selectExpiredBackups(backups, { keepLast: 3, olderThan: 5 * day }, now)).toEqual([backups[3]]);
+    expect(selectExpiredBackups(backups, { keepLast: 1, olderThan: 5 * day }, now)).toEqual(backups.slice(1));
+  });
+});
+
+describe('diffTranscripts', () => {
+  const line = (uuid: string, text: string) =>
+    JSON.stringify({ type: 'user', uuid, message: { role: 'user', content: text } });
+
+  it('should report removed, added and changed messages by uuid', () => {
+    const before = ['{"type":"summary"}', line('a', 'first'), line('b', 'second'), line('c', 'third')];
+    const after = ['{"type":"summary"}', line('b', 'second, trimmed'), line('c', 'third'), line('d', 'fourth')];
+
+    const diff = diffTranscripts(before, after);
+
+    expect(diff.removed).toEqual([{ line: 2, type: 'user', preview: 'first' }]);
+    expect(diff.added).toEqual([{ line: 4, type: 'user', preview: 'fourth' }]);
+    expect(diff.changed).toEqual([{ line: 2, type: 'user', preview: 'second, trimmed' }]);
+    expect(diff.unchanged).toBe(2);
+  });
+
+  it('should shorten long previews', () => {
+    const diff = diffTranscripts([], [line('a', 'x'.repeat(200))]);
+
+    expect(diff.added[0].preview).toHaveLength(80);
+    expect(diff.added[0].preview.endsWith('…')).toBe(true);
+  });
+});
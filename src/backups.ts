@@ -0,0 +1,396 @@
+import { createHash } from 'crypto';
+import { dirname, join } from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import fs from 'fs-extra';
+import { backupDirFor } from './sessions';
+import { VERSION } from './version';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Backups live next to the session in `prune-backup/`. Every distinct line any
+// backup of a session contained is stored once, in `<sessionId>.pack.gz`, which
+// grows by one gzip member per backup. A backup is a snapshot,
+// `<sessionId>.jsonl.<epoch ms>.snap.gz`, listing the hashes of its lines in
+// order. Plain copies named `<sessionId>.jsonl.<epoch ms>` from earlier versions
+// are still read, and migrateBackups folds them into the pack. Either kind has
+// a `<sessionId>.jsonl.<epoch ms>.json` manifest describing the change it
+// protects against.
+
+export interface BackupManifest {
+  version: string;     // claude-prune version that wrote the backup
+  sourceHash: string;  // sha256 of the backed-up file
+  sourceBytes: number; // Size of the backed-up file
+  resultHash?: string; // sha256 of what claude-prune wrote in its place
+  strategy: string;    // Label of the strategy (or restore) that changed the session
+  options?: Record<string, unknown>; // Flags and choices that shaped the change
+  dropped?: {
+    indices: number[]; // Line indices in the backed-up file (0 is the metadata line)
+    uuids: string[];
+  };
+  tokens?: { before: number; after: number };
+}
+
+/** What the caller knows about a change; createBackup fills in the rest. */
+export type ManifestInput = Omit<BackupManifest, 'version' | 'sourceHash' | 'sourceBytes'>;
+
+export type BackupFormat = 'snapshot' | 'plain';
+
+export interface BackupInfo {
+  sessionId: string;
+  name: string;
+  path: string;
+  timestamp: number;
+  size: number; // Bytes of the session as backed up, not as stored
+  format: BackupFormat;
+  manifest?: BackupManifest;
+}
+
+export interface MessageDiff {
+  removed: DiffEntry[];
+  added: DiffEntry[];
+  changed: DiffEntry[];
+  unchanged: number;
+}
+
+export interface DiffEntry {
+  line: number; // 1-based line in the file the entry comes from
+  type: string;
+  preview: string;
+}
+
+export interface RetentionPolicy {
+  keepLast?: number;  // Always keep this many of the newest backups
+  olderThan?: number; // Only delete backups older than this many ms
+}
+
+/** The timestamp and format of a backup file of `sessionId`, or null for any other file. */
+export function parseBackupName(name: string, sessionId: string): { timestamp: number; format: BackupFormat } | null {
+  const escaped = sessionId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`^${escaped}\\.jsonl\\.(\\d+)(\\.snap\\.gz)?$`).exec(name);
+  return match ? { timestamp: parseInt(match[1]), format: match[2] ? 'snapshot' : 'plain' } : null;
+}
+
+function packPath(dir: string, sessionId: string): string {
+  return join(dir, `${sessionId}.pack.gz`);
+}
+
+function manifestPath(backup: BackupInfo): string {
+  return join(dirname(backup.path), `${backup.sessionId}.jsonl.${backup.timestamp}.json`);
+}
+
+/** Backups of a session, newest first. */
+export async function listBackups(sessionFile: string, sessionId: string): Promise<BackupInfo[]> {
+  const dir = backupDirFor(sessionFile);
+  if (!(await fs.pathExists(dir))) return [];
+
+  const backups: BackupInfo[] = [];
+
+  for (const name of await fs.readdir(dir)) {
+    const parsed = parseBackupName(name, sessionId);
+    if (!parsed) continue;
+
+    const backup: BackupInfo = { sessionId, name, path: join(dir, name), size: 0, ...parsed };
+    backup.manifest = await fs.readJson(manifestPath(backup)).catch(() => undefined);
+    backup.size = backup.manifest?.sourceBytes ?? (await fs.stat(backup.path)).size;
+    backups.push(backup);
+  }
+
+  return backups.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Snapshot the session into its backup store, with a manifest recording why.
+ * `content` is the session as the caller read it; without it the file is read
+ * now.
+ */
+export async function createBackup(
+  sessionFile: string,
+  sessionId: string,
+  input: ManifestInput,
+  content?: Buffer
+): Promise<BackupInfo> {
+  const dir = backupDirFor(sessionFile);
+  await fs.ensureDir(dir);
+
+  // Two backups in the same millisecond would overwrite each other
+  let timestamp = Date.now();
+  while ((await fs.readdir(dir)).some(name => parseBackupName(name, sessionId)?.timestamp === timestamp)) timestamp++;
+
+  // Snapshot what the caller read and changed, so the hash and dropped
+  // indices describe it even if the file has been appended to since
+  const source = content ?? await fs.readFile(sessionFile);
+  const backup = await writeSnapshot(dir, sessionId, timestamp, source);
+  backup.manifest = {
+    version: VERSION,
+    sourceHash: hashContent(source),
+    sourceBytes: source.length,
+    ...input
+  };
+  await fs.writeJson(manifestPath(backup), backup.manifest, { spaces: 2 });
+
+  return backup;
+}
+
+/** The session content a backup holds, rebuilt from the pack for snapshots. */
+export async function readBackup(backup: BackupInfo): Promise<Buffer> {
+  if (backup.format === 'plain') return fs.readFile(backup.path);
+
+  const pack = await readPack(packPath(dirname(backup.path), backup.sessionId));
+  const hashes = await readSnapshot(backup.path);
+  const lines = hashes.map(hash => {
+    const line = pack.get(hash);
+    if (line === undefined) {
+      throw new Error(`${backup.name} refers to a line missing from ${backup.sessionId}.pack.gz`);
+    }
+    return line;
+  });
+  return Buffer.from(lines.join('\n'), 'utf8');
+}
+
+/**
+ * Delete backups and drop the pack lines no remaining snapshot refers to.
+ * Returns the bytes freed on disk.
+ */
+export async function deleteBackups(sessionFile: string, sessionId: string, backups: BackupInfo[]): Promise<number> {
+  const dir = backupDirFor(sessionFile);
+  const before = await storeBytes(dir, sessionId);
+
+  for (const backup of backups) {
+    await fs.remove(backup.path);
+    await fs.remove(manifestPath(backup));
+  }
+  await compactPack(dir, sessionId);
+
+  return before - (await storeBytes(dir, sessionId));
+}
+
+/**
+ * Fold plain backups into the pack as snapshots, oldest first. Each is
+ * rebuilt and compared with the original before the plain copy is removed.
+ * Returns the migrated backups.
+ */
+export async function migrateBackups(sessionFile: string, sessionId: string): Promise<BackupInfo[]> {
+  const dir = backupDirFor(sessionFile);
+  const plain = (await listBackups(sessionFile, sessionId)).filter(b => b.format === 'plain').reverse();
+  const migrated: BackupInfo[] = [];
+
+  for (const old of plain) {
+    const content = await fs.readFile(old.path);
+    const snapshot = await writeSnapshot(dir, sessionId, old.timestamp, content);
+    const sourceHash = hashContent(content);
+
+    if (hashContent(await readBackup(snapshot)) !== sourceHash) {
+      await fs.remove(snapshot.path);
+      throw new Error(`${old.name} did not survive migration unchanged; it was left in place`);
+    }
+
+    snapshot.manifest = old.manifest
+      ? { ...old.manifest, sourceBytes: content.length }
+      : { version: VERSION, sourceHash, sourceBytes: content.length, strategy: 'Not recorded (migrated)' };
+    await fs.writeJson(manifestPath(snapshot), snapshot.manifest, { spaces: 2 });
+    await fs.remove(old.path);
+    migrated.push(snapshot);
+  }
+
+  return migrated;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/** Whether a backup still rebuilds to the hash its manifest recorded; undefined without a manifest. */
+export async function verifyBackup(backup: BackupInfo): Promise<boolean | undefined> {
+  if (!backup.manifest?.sourceHash) return undefined;
+  try {
+    return hashContent(await readBackup(backup)) === backup.manifest.sourceHash;
+  } catch {
+    return false;
+  }
+}
+
+/** The dropped lines' indices and the uuids of those that have one, for a manifest. */
+export function describeDropped(lines: string[], indices: number[]): NonNullable<BackupManifest['dropped']> {
+  const uuids: string[] = [];
+  for (const idx of indices) {
+    try {
+      const uuid = JSON.parse(lines[idx])?.uuid;
+      if (typeof uuid === 'string') uuids.push(uuid);
+    } catch {
+      // No uuid to record
+    }
+  }
+  return { indices, uuids };
+}
+
+// Lines are keyed by a truncated sha256; 128 bits is plenty within one session
+function lineHash(line: string): string {
+  return hashContent(line).slice(0, 32);
+}
+
+/** Every line in a session's pack, by hash. */
+async function readPack(path: string): Promise<Map<string, string>> {
+  const lines = new Map<string, string>();
+  if (!(await fs.pathExists(path))) return lines;
+
+  // Each member holds lines terminated by "\n"; gunzip reads the members as one stream
+  const text = (await gunzipAsync(await fs.readFile(path))).toString('utf8');
+  for (const line of text.split('\n').slice(0, -1)) {
+    lines.set(lineHash(line), line);
+  }
+  return lines;
+}
+
+async function readSnapshot(path: string): Promise<string[]> {
+  return (await gunzipAsync(await fs.readFile(path))).toString('utf8').split('\n');
+}
+
+/** Add the content's new lines to the pack and write a snapshot of it. */
+async function writeSnapshot(dir: string, sessionId: string, timestamp: number, content: Buffer): Promise<BackupInfo> {
+  const pack = packPath(dir, sessionId);
+  const stored = await readPack(pack);
+
+  // Splitting on "\n" alone keeps "\r" and a trailing newline, so the rebuild is exact
+  const lines = content.toString('utf8').split('\n');
+  const hashes = lines.map(lineHash);
+  const added = new Map<string, string>();
+  lines.forEach((line, i) => {
+    if (!stored.has(hashes[i])) added.set(hashes[i], line);
+  });
+
+  if (added.size > 0) {
+    await fs.appendFile(pack, await gzipAsync([...added.values()].map(line => line + '\n').join('')));
+  }
+
+  const name = `${sessionId}.jsonl.${timestamp}.snap.gz`;
+  const path = join(dir, name);
+  await fs.writeFile(path, await gzipAsync(hashes.join('\n')));
+
+  return { sessionId, name, path, timestamp, size: content.length, format: 'snapshot' };
+}
+
+/** Rewrite the pack with only the lines remaining snapshots refer to. */
+async function compactPack(dir: string, sessionId: string): Promise<void> {
+  const pack = packPath(dir, sessionId);
+  if (!(await fs.pathExists(pack))) return;
+
+  const used = new Set<string>();
+  for (const name of await fs.readdir(dir)) {
+    if (parseBackupName(name, sessionId)?.format !== 'snapshot') continue;
+    (await readSnapshot(join(dir, name))).forEach(hash => used.add(hash));
+  }
+
+  if (used.size === 0) {
+    await fs.remove(pack);
+    return;
+  }
+
+  const kept = [...(await readPack(pack))].filter(([hash]) => used.has(hash)).map(([, line]) => line + '\n');
+  const temp = `${pack}.tmp`;
+  await fs.writeFile(temp, await gzipAsync(kept.join('')));
+  await fs.rename(temp, pack);
+}
+
+/** Bytes the backups of a session take on disk, pack included. */
+async function storeBytes(dir: string, sessionId: string): Promise<number> {
+  if (!(await fs.pathExists(dir))) return 0;
+  let total = 0;
+  for (const name of await fs.readdir(dir)) {
+    if (name === `${sessionId}.pack.gz` || parseBackupName(name, sessionId)) {
+      total += (await fs.stat(join(dir, name))).size;
+    }
+  }
+  return total;
+}
+
+/**
+ * Find a backup by its position in the newest-first list ("1" is the latest),
+ * its exact file name, or a point in time (epoch ms or a date), which picks
+ * the newest backup taken at or before it.
+ */
+export function resolveBackup(backups: BackupInfo[], at: string): BackupInfo | undefined {
+  // A snapshot also answers to the name its plain copy would have had
+  const byName = backups.find(b => b.name === at || `${b.sessionId}.jsonl.${b.timestamp}` === at);
+  if (byName) return byName;
+
+  if (/^\d+$/.test(at) && at.length < 10) {
+    return backups[parseInt(at) - 1];
+  }
+
+  const time = /^\d+$/.test(at) ? parseInt(at) : Date.parse(at);
+  if (isNaN(time)) return undefined;
+  return backups.find(b => b.timestamp <= time);
+}
+
+/** Backups a retention policy would delete, given a newest-first list. */
+export function selectExpiredBackups(backups: BackupInfo[], policy: RetentionPolicy, now: number = Date.now()): BackupInfo[] {
+  return backups.filter((backup, i) =>
+    i >= (policy.keepLast ?? 0) &&
+    (policy.olderThan === undefined || backup.timestamp < now - policy.olderThan)
+  );
+}
+
+/**
+ * Compare two versions of a transcript message by message. Lines are matched
+ * by uuid; a kept message whose line differs (relinked, trimmed) is "changed".
+ */
+export function diffTranscripts(before: string[], after: string[]): MessageDiff {
+  const index = (lines: string[]) => {
+    const entries = new Map<string, { line: number; raw: string; obj: any }>();
+    lines.forEach((raw, i) => {
+      if (!raw.trim()) return;
+      let obj: any = null;
+      try {
+        obj = JSON.parse(raw);
+      } catch {
+        // Not JSON; matched by content
+      }
+      entries.set(typeof obj?.uuid === 'string' ? obj.uuid : `line:${raw}`, { line: i + 1, raw, obj });
+    });
+    return entries;
+  };
+
+  const entry = (e: { line: number; obj: any; raw: string }): DiffEntry => ({
+    line: e.line,
+    type: e.obj?.type ?? 'raw',
+    preview: previewLine(e.obj, e.raw)
+  });
+
+  const old = index(before);
+  const current = index(after);
+  const diff: MessageDiff = { removed: [], added: [], changed: [], unchanged: 0 };
+
+  for (const [key, e] of old) {
+    const match = current.get(key);
+    if (!match) diff.removed.push(entry(e));
+    else if (match.raw !== e.raw) diff.changed.push(entry(match));
+    else diff.unchanged++;
+  }
+  for (const [key, e] of current) {
+    if (!old.has(key)) diff.added.push(entry(e));
+  }
+
+  return diff;
+}
+
+function previewLine(obj: any, raw: string): string {
+  const content = obj?.message?.content ?? obj?.content ?? obj?.summary;
+  let text: string;
+  if (typeof content === 'string') {
+    text = content;
+  } else if (Array.isArray(content)) {
+    text = content.map((b: any) =>
+      b?.type === 'text' ? b.text
+        : b?.type === 'tool_use' ? `[${b.name}]`
+        : b?.type === 'tool_result' ? '[tool result]'
+        : `[${b?.type}]`
+    ).join(' ');
+  } else {
+    text = raw;
+  }
+
+  text = text.replace(/\s+/g, ' ').trim();
+  return text.length > 80 ? text.slice(0, 79) + '…' : text;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { stripVTControlCharacters } from 'util';
+import { SessionAnalyzer } from './analyzer';
+import { MessageBrowser, parseKeys } from './browser';
+import { transcript } from './test-fixtures';
+
+const session = () => new SessionAnalyzer(transcript()
+  .user("Set up the project")
+  .tool("Bash", { command: "npm init" }, "created package.json")
+  .assistant("Project is ready")
+  .user("Now fix the flaky test")
+  .assistant("Fixed the race in the test")
+  .build());
+
+const press = (browser: MessageBrowser, ...keys: string[]) => keys.forEach(key => browser.handleKey(key));
+const screen = (browser: MessageBrowser, width = 100, height = 12) =>
+  browser.render(width, height).map(line => stripVTControlCharacters(line));
+
+describe('MessageBrowser', () => {
+  it('should show one row per message, or per turn', () => {
+    const browser = new MessageBrowser(session());
+
+    expect(browser.rows.map(r => [r.indices[0], r.label, r.tools.join()])).toEqual([
+      [1, 'user', ''],
+      [2, 'assistant', 'Bash'],
+      [3, 'tool result', ''],
+      [4, 'assistant', ''],
+      [5, 'user', ''],
+      [6, 'assistant', '']
+    ]);
+    expect(browser.rows[2].snippet).toBe('created package.json');
+
+    press(browser, 'down', 'down', 'down', 'down', 't');
+
+    expect(browser.rows.map(r => [r.label, r.indices])).toEqual([['Turn 1', [1, 2, 3, 4]], ['Turn 2', [5, 6]]]);
+    expect(browser.cursor).toBe(1);
+  });
+
+  it('should toggle messages and whole turns, updating the tokens freed', () => {
+    const analyzer = session();
+    const browser = new MessageBrowser(analyzer);
+    const before = browser.tokensAfter();
+
+    press(browser, ' ');
+    expect(browser.keptIndices()).toEqual([2, 3, 4, 5, 6]);
+    expect(browser.tokensAfter()).toBeLessThan(before);
+
+    press(browser, 't');
+    expect(browser.isKept(browser.rows[0])).toBe('partial');
+    press(browser, ' ');
+    expect(browser.keptIndices()).toEqual([1, 2, 3, 4, 5, 6]);
+    press(browser, ' ');
+    expect(browser.keptIndices()).toEqual([5, 6]);
+    expect(screen(browser)[0]).toMatch(/^2\/6 messages kept · ~\d+ → ~\d+ tokens · frees ~\d+%$/);
+  });
+
+  it('should drop and keep a whole phase', () => {
+    const browser = new MessageBrowser(session());
+    const phase = browser.rows.filter(r => r.phaseNumber === browser.rows[0].phaseNumber).flatMap(r => r.indices);
+
+    press(browser, 'p');
+    expect(browser.keptIndices()).toEqual([1, 2, 3, 4, 5, 6].filter(i => !phase.includes(i)));
+
+    press(browser, 'p');
+    expect(browser.keptIndices()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should search forward and backward, wrapping around', () => {
+    const browser = new MessageBrowser(session());
+
+    press(browser, '/', ...'TEST', 'enter');
+    expect(browser.cursor).toBe(4);
+    press(browser, 'n');
+    expect(browser.cursor).toBe(5);
+    press(browser, 'n');
+    expect(browser.cursor).toBe(4);
+    press(browser, 'N');
+    expect(browser.cursor).toBe(5);
+
+    press(browser, '/', ...'nowhere', 'enter');
+    expect(browser.cursor).toBe(5);
+    expect(screen(browser).at(-1)).toBe('No match for "nowhere"');
+  });
+
+  it('should open a message for reading and return to the list', () => {
+    const browser = new MessageBrowser(session());
+
+    press(browser, 'down', 'enter');
+    const reading = screen(browser);
+    expect(reading[1]).toBe('── line 3 · assistant · ~' + reading[1].split('~')[1]);
+    expect(reading).toContain('  "command": "npm init"');
+
+    press(browser, 'escape');
+    expect(browser.expanded).toBeNull();
+    expect(browser.status).toBe('browsing');
+  });
+
+  it('should only finish with at least one message kept', () => {
+    const browser = new MessageBrowser(session());
+
+    press(browser, 'x', 'y');
+    expect(browser.status).toBe('browsing');
+    expect(screen(browser).at(-1)).toBe('Keep at least one message');
+
+    press(browser, 'a', 'y');
+    expect(browser.status).toBe('done');
+    expect(new MessageBrowser(session(), [1]).keptIndices()).toEqual([1]);
+  });
+
+  it('should never drop pinned messages', () => {
+    const browser = new MessageBrowser(new SessionAnalyzer(transcript().user("Spec #pin").assistant("ok").build()), [2]);
+
+    expect(browser.keptIndices()).toEqual([1, 2]);
+    press(browser, ' ');
+    expect(screen(browser).at(-1)).toBe('Pinned messages are always kept');
+    press(browser, 'x');
+    expect(browser.keptIndices()).toEqual([1]);
+    expect(screen(browser)[1]).toMatch(/^› ⚑ +2 user/);
+  });
+
+  it('should fit the screen and keep the cursor in view', () => {
+    const browser = new MessageBrowser(session());
+    press(browser, 'end');
+
+    const lines = screen(browser, 40, 5);
+
+    expect(lines).toHaveLength(5);
+    expect(lines.every(line => line.length <= 40)).toBe(true);
+    expect(lines[3]).toMatch(/^› ● +7 assistant/);
+  });
+});
+
+describe('parseKeys', () => {
+  it('should name escape sequences and keep printable characters', () => {
+    expect(parseKeys('\x1b[A\x1b[B\x1b[5~ \r/ab\x7f\x1b\x03')).toEqual([
+      'up', 'down', 'pageup', ' ', 'enter', '/', 'a', 'b', 'backspace', 'escape', 'ctrl-c'
+    ]);
+  });
+});
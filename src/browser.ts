@@ -0,0 +1,400 @@
+import chalk from 'chalk';
+import { shortPhaseName, type MessageInfo, type SessionAnalyzer } from './analyzer';
+import { getToolResultText } from './content';
+import { formatTokens } from './tokens';
+
+// Full-screen message browser. MessageBrowser holds the state and turns key
+// names into changes and screen lines, with no terminal I/O, so it can be
+// driven by tests; browseMessages wires it to a raw-mode TTY.
+
+export interface BrowserRow {
+  indices: number[]; // Message lines the row stands for: one, or a whole turn
+  label: string;
+  pinned: number;    // How many of them are pinned
+  phase?: string;
+  phaseNumber?: number;
+  tools: string[];
+  snippet: string;
+  tokens: number;
+  haystack: string;  // Lowercased text that search matches against
+}
+
+export type BrowserView = 'messages' | 'turns';
+export type BrowserStatus = 'browsing' | 'done' | 'cancelled';
+
+const HELP = '↑↓ move  space keep/drop  p phase  a/x keep/drop all  t turns  / search  n/N next  enter read  y done  q cancel';
+
+export class MessageBrowser {
+  public view: BrowserView = 'messages';
+  public status: BrowserStatus = 'browsing';
+  public cursor = 0;
+  public query = '';
+  public searching = false; // Typing a search query
+  public expanded: BrowserRow | null = null;
+  public notice = '';       // One-off message shown in the footer
+
+  private analyzer: SessionAnalyzer;
+  private kept: Set<number>;
+  private messageRows: BrowserRow[];
+  private turnRows: BrowserRow[];
+  private phaseOf = new Map<number, number>();
+  private scroll = 0;
+  private expandedScroll = 0;
+  private pageSize = 10;
+  private beforeTokens: number;
+
+  constructor(analyzer: SessionAnalyzer, kept: Iterable<number> = analyzer.getMessageIndices()) {
+    this.analyzer = analyzer;
+    this.kept = new Set(analyzer.withPinned([...kept]));
+    this.beforeTokens = analyzer.getTokenAccountant().contextTokens();
+
+    const messageIndices = analyzer.getMessageIndices();
+    const phases = analyzer.getAnalysis().workPhases;
+    phases.forEach((phase, i) => {
+      for (let p = phase.start; p <= phase.end; p++) this.phaseOf.set(messageIndices[p], i + 1);
+    });
+    const phaseName = (index: number) => {
+      const number = this.phaseOf.get(index);
+      return number ? shortPhaseName(phases[number - 1].description) : undefined;
+    };
+
+    const details = new Map(analyzer.getMessageDetails().map(m => [m.index, m]));
+    this.messageRows = analyzer.getMessageDetails().map(msg => ({
+      indices: [msg.index],
+      label: messageLabel(msg),
+      pinned: msg.isPinned ? 1 : 0,
+      phase: phaseName(msg.index),
+      phaseNumber: this.phaseOf.get(msg.index),
+      tools: msg.toolNames,
+      snippet: snippetOf(msg),
+      tokens: analyzer.estimateLineTokens(msg.index),
+      haystack: [msg.content ?? '', ...msg.toolNames, snippetOf(msg)].join('\n').toLowerCase()
+    }));
+    this.turnRows = analyzer.getTurns().map(turn => {
+      const messages = turn.indices.map(i => details.get(i)!);
+      const prompt = turn.promptIndex !== undefined ? details.get(turn.promptIndex) : undefined;
+      return {
+        indices: turn.indices,
+        label: turn.number === 0 ? 'Preamble' : `Turn ${turn.number}`,
+        pinned: messages.filter(m => m.isPinned).length,
+        phase: phaseName(turn.indices[0]),
+        phaseNumber: this.phaseOf.get(turn.indices[0]),
+        tools: [...new Set(messages.flatMap(m => m.toolNames))],
+        snippet: prompt ? snippetOf(prompt) : snippetOf(messages[0]),
+        tokens: turn.indices.reduce((sum, i) => sum + analyzer.estimateLineTokens(i), 0),
+        haystack: messages.map(m => [m.content ?? '', ...m.toolNames].join('\n')).join('\n').toLowerCase()
+      };
+    });
+  }
+
+  public get rows(): BrowserRow[] {
+    return this.view === 'messages' ? this.messageRows : this.turnRows;
+  }
+
+  public keptIndices(): number[] {
+    return [...this.kept].sort((a, b) => a - b);
+  }
+
+  public isKept(row: BrowserRow): boolean | 'partial' {
+    const kept = row.indices.filter(i => this.kept.has(i)).length;
+    return kept === row.indices.length ? true : kept === 0 ? false : 'partial';
+  }
+
+  public tokensAfter(): number {
+    return this.analyzer.projectTokens(this.keptIndices());
+  }
+
+  /** Apply one key, as named by parseKeys. */
+  public handleKey(key: string): void {
+    this.notice = '';
+    if (key === 'ctrl-c') {
+      this.status = 'cancelled';
+    } else if (this.searching) {
+      this.handleSearchKey(key);
+    } else if (this.expanded) {
+      this.handleReadingKey(key);
+    } else {
+      this.handleListKey(key);
+    }
+  }
+
+  private handleListKey(key: string): void {
+    const row = this.rows[this.cursor];
+    switch (key) {
+      case 'up': case 'k': this.moveTo(this.cursor - 1); break;
+      case 'down': case 'j': this.moveTo(this.cursor + 1); break;
+      case 'pageup': this.moveTo(this.cursor - this.pageSize); break;
+      case 'pagedown': this.moveTo(this.cursor + this.pageSize); break;
+      case 'home': case 'g': this.moveTo(0); break;
+      case 'end': case 'G': this.moveTo(this.rows.length - 1); break;
+      case ' ':
+        if (row && row.pinned === row.indices.length) {
+          this.notice = 'Pinned messages are always kept';
+        } else if (row) {
+          this.setKept(row.indices, this.isKept(row) !== true);
+        }
+        break;
+      case 'p':
+        if (row?.phaseNumber) {
+          const indices = this.analyzer.getMessageIndices().filter(i => this.phaseOf.get(i) === row.phaseNumber);
+          this.setKept(indices, !indices.every(i => this.kept.has(i)));
+          this.notice = `Phase ${row.phaseNumber} (${row.phase}) ${indices.every(i => this.kept.has(i)) ? 'kept' : 'dropped'}`;
+        }
+        break;
+      case 'a': this.setKept(this.analyzer.getMessageIndices(), true); break;
+      case 'x': this.setKept(this.analyzer.getMessageIndices(), false); break;
+      case 't': this.switchView(); break;
+      case '/':
+        this.searching = true;
+        this.query = '';
+        break;
+      case 'n': this.findNext(1); break;
+      case 'N': this.findNext(-1); break;
+      case 'enter':
+        if (row) {
+          this.expanded = row;
+          this.expandedScroll = 0;
+        }
+        break;
+      case 'y':
+        if (this.kept.size === 0) {
+          this.notice = 'Keep at least one message';
+        } else {
+          this.status = 'done';
+        }
+        break;
+      case 'q': case 'escape': this.status = 'cancelled'; break;
+    }
+  }
+
+  private handleSearchKey(key: string): void {
+    if (key === 'enter') {
+      this.searching = false;
+      this.findNext(0);
+    } else if (key === 'escape') {
+      this.searching = false;
+      this.query = '';
+    } else if (key === 'backspace') {
+      this.query = this.query.slice(0, -1);
+    } else if ([...key].length === 1 && key >= ' ') {
+      this.query += key;
+    }
+  }
+
+  private handleReadingKey(key: string): void {
+    switch (key) {
+      case 'up': case 'k': this.expandedScroll = Math.max(0, this.expandedScroll - 1); break;
+      case 'down': case 'j': this.expandedScroll++; break;
+      case 'pageup': this.expandedScroll = Math.max(0, this.expandedScroll - this.pageSize); break;
+      case 'pagedown': case ' ': this.expandedScroll += this.pageSize; break;
+      case 'enter': case 'escape': case 'q': this.expanded = null; break;
+    }
+  }
+
+  private moveTo(position: number): void {
+    this.cursor = Math.max(0, Math.min(this.rows.length - 1, position));
+  }
+
+  /** Keep or drop lines; pinned lines are never dropped. */
+  private setKept(indices: number[], keep: boolean): void {
+    for (const i of indices) {
+      if (keep) this.kept.add(i);
+      else if (!this.analyzer.isPinned(i)) this.kept.delete(i);
+    }
+  }
+
+  /** Switch between message and turn rows, staying on the same part of the session. */
+  private switchView(): void {
+    const line = this.rows[this.cursor]?.indices[0];
+    this.view = this.view === 'messages' ? 'turns' : 'messages';
+    const position = this.rows.findIndex(row => line !== undefined && row.indices.includes(line));
+    this.cursor = Math.max(0, position);
+  }
+
+  /** Move to the next (1) or previous (-1) row matching the query; 0 includes the current row. */
+  private findNext(direction: 1 | -1 | 0): void {
+    if (!this.query) return;
+    const needle = this.query.toLowerCase();
+    const count = this.rows.length;
+    const step = direction === -1 ? -1 : 1;
+    for (let n = direction === 0 ? 0 : 1; n <= count; n++) {
+      const position = ((this.cursor + step * n) % count + count) % count;
+      if (this.rows[position].haystack.includes(needle)) {
+        this.cursor = position;
+        return;
+      }
+    }
+    this.notice = `No match for "${this.query}"`;
+  }
+
+  /** The screen as `height` lines of at most `width` columns. */
+  public render(width: number, height: number): string[] {
+    const screen = this.expanded ? this.renderReading(width, height - 2) : this.renderList(width, height - 2);
+    return [this.renderHeader(width), ...screen, this.renderFooter(width)];
+  }
+
+  private renderHeader(width: number): string {
+    const after = this.tokensAfter();
+    const freed = this.beforeTokens - after;
+    const percent = this.beforeTokens > 0 ? Math.max(0, Math.round((freed / this.beforeTokens) * 100)) : 0;
+    const total = this.analyzer.getMessageIndices().length;
+    const pinned = this.analyzer.getPinnedIndices().length;
+    const text = `${this.kept.size}/${total} messages kept${pinned > 0 ? ` (${pinned} pinned)` : ''} · ~${formatTokens(this.beforeTokens)} → ~${formatTokens(after)} tokens · frees ~${percent}%`;
+    return chalk.bold(fit(text, width));
+  }
+
+  private renderFooter(width: number): string {
+    if (this.searching) return fit(`/${this.query}`, width) + chalk.inverse(' ');
+    if (this.notice) return chalk.yellow(fit(this.notice, width));
+    return chalk.dim(fit(this.expanded ? '↑↓ scroll  enter back' : HELP, width));
+  }
+
+  private renderList(width: number, height: number): string[] {
+    this.pageSize = Math.max(1, height);
+    if (this.cursor < this.scroll) this.scroll = this.cursor;
+    if (this.cursor >= this.scroll + height) this.scroll = this.cursor - height + 1;
+    this.scroll = Math.max(0, Math.min(this.scroll, Math.max(0, this.rows.length - height)));
+
+    const lines = this.rows.slice(this.scroll, this.scroll + height).map((row, i) => {
+      const current = this.scroll + i === this.cursor;
+      const kept = this.isKept(row);
+      const mark = row.pinned > 0 ? chalk.yellow('⚑') : kept === true ? chalk.green('●') : kept === false ? chalk.red('○') : chalk.yellow('◐');
+      const columns = [
+        String(row.indices[0] + 1).padStart(5),
+        row.label.padEnd(11),
+        (row.phase ?? '').padEnd(7),
+        fit(row.tools.join(','), 12).padEnd(12),
+        `~${formatTokens(row.tokens)}`.padStart(7)
+      ].join(' ');
+      const prefix = `${current ? '›' : ' '} `;
+      const text = fit(`${columns}  ${row.snippet}`, width - 4);
+      const styled = current ? chalk.inverse(text) : kept === false ? chalk.dim(text) : text;
+      return `${prefix}${mark} ${styled}`;
+    });
+    while (lines.length < height) lines.push('');
+    return lines;
+  }
+
+  private renderReading(width: number, height: number): string[] {
+    this.pageSize = Math.max(1, height);
+    const row = this.expanded!;
+    const details = new Map(this.analyzer.getMessageDetails().map(m => [m.index, m]));
+    const body = row.indices.flatMap(index => {
+      const msg = details.get(index)!;
+      return [
+        chalk.cyan(`── line ${index + 1} · ${messageLabel(msg)} · ~${formatTokens(this.analyzer.estimateLineTokens(index))} tokens`),
+        ...messageText(msg).split('\n'),
+        ''
+      ];
+    }).flatMap(line => wrap(line, width));
+
+    this.expandedScroll = Math.min(this.expandedScroll, Math.max(0, body.length - height));
+    const lines = body.slice(this.expandedScroll, this.expandedScroll + height);
+    while (lines.length < height) lines.push('');
+    return lines;
+  }
+}
+
+function messageLabel(msg: MessageInfo): string {
+  if (msg.type === 'assistant') return 'assistant';
+  if (msg.type === 'system') return 'system';
+  return msg.hasToolResult && !msg.content ? 'tool result' : 'user';
+}
+
+function snippetOf(msg: MessageInfo): string {
+  const text = msg.content
+    || msg.blocks.map(b => b.type === 'tool_result' ? getToolResultText(b) : '').find(t => t.trim())
+    || (msg.hasThinking ? '(thinking)' : msg.hasImage ? '(image)' : '');
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Everything a message says, for the reading view. */
+function messageText(msg: MessageInfo): string {
+  return msg.blocks.map(block => {
+    switch (block.type) {
+      case 'text': return block.text;
+      case 'thinking': return `[thinking]\n${block.thinking}`;
+      case 'tool_use': return `[${block.name}] ${JSON.stringify(block.input ?? {}, null, 2)}`;
+      case 'tool_result': return `[${block.is_error ? 'error' : 'result'}]\n${getToolResultText(block)}`;
+      case 'image': return '[image]';
+      default: return '';
+    }
+  }).join('\n');
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width ? text.slice(0, Math.max(0, width - 1)) + '…' : text;
+}
+
+function wrap(line: string, width: number): string[] {
+  if (line.length <= width) return [line];
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += width) parts.push(line.slice(i, i + width));
+  return parts;
+}
+
+const KEY_NAMES: Record<string, string> = {
+  '\x1b[A': 'up', '\x1bOA': 'up',
+  '\x1b[B': 'down', '\x1bOB': 'down',
+  '\x1b[C': 'right', '\x1bOC': 'right',
+  '\x1b[D': 'left', '\x1bOD': 'left',
+  '\x1b[5~': 'pageup', '\x1b[6~': 'pagedown',
+  '\x1b[H': 'home', '\x1bOH': 'home', '\x1b[1~': 'home',
+  '\x1b[F': 'end', '\x1bOF': 'end', '\x1b[4~': 'end',
+  '\r': 'enter', '\n': 'enter',
+  '\x7f': 'backspace', '\b': 'backspace',
+  '\x1b': 'escape',
+  '\x03': 'ctrl-c'
+};
+
+/** Key names in a chunk of raw-mode input; printable characters stand for themselves. */
+export function parseKeys(data: string): string[] {
+  const keys = data.match(/\x1b\[[0-9;]*[A-Za-z~]|\x1bO[A-Za-z]|[\s\S]/gu) ?? [];
+  return keys.map(key => KEY_NAMES[key] ?? key);
+}
+
+/**
+ * Let the user browse the session and toggle messages, starting from `kept`.
+ * Resolves to the line indices to keep, or null if they cancel.
+ */
+export function browseMessages(analyzer: SessionAnalyzer, kept?: Iterable<number>): Promise<number[] | null> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error('The message browser needs an interactive terminal'));
+  }
+
+  const browser = new MessageBrowser(analyzer, kept);
+  const wasRaw = stdin.isRaw;
+
+  return new Promise(resolve => {
+    const draw = () => {
+      const lines = browser.render(stdout.columns || 80, stdout.rows || 24);
+      // Home, then overwrite each line and clear what is left of the old screen
+      stdout.write('\x1b[H' + lines.map(line => line + '\x1b[K').join('\n') + '\x1b[J');
+    };
+    const onData = (data: Buffer) => {
+      for (const key of parseKeys(data.toString('utf8'))) {
+        browser.handleKey(key);
+        if (browser.status !== 'browsing') break;
+      }
+      if (browser.status === 'browsing') {
+        draw();
+        return;
+      }
+
+      stdin.off('data', onData);
+      stdout.off('resize', draw);
+      stdin.setRawMode(wasRaw);
+      stdin.pause();
+      stdout.write('\x1b[?25h\x1b[?1049l'); // Show the cursor, leave the alternate screen
+      resolve(browser.status === 'done' ? browser.keptIndices() : null);
+    };
+
+    stdout.write('\x1b[?1049h\x1b[?25l'); // Alternate screen, hide the cursor
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+    stdout.on('resize', draw);
+    draw();
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { SessionAnalyzer } from './analyzer';
+import { parseTokenCount, planTokenBudget } from './budget';
+import { transcript } from './test-fixtures';
+
+describe('parseTokenCount', () => {
+  it('should parse plain numbers and k/m suffixes', () => {
+    expect(parseTokenCount('80000')).toBe(80000);
+    expect(parseTokenCount('80k')).toBe(80000);
+    expect(parseTokenCount('1.5M')).toBe(1500000);
+  });
+
+  it('should reject anything else', () => {
+    expect(parseTokenCount('lots')).toBeNaN();
+    expect(parseTokenCount('-5')).toBeNaN();
+  });
+});
+
+describe('planTokenBudget', () => {
+  const buildSession = () => transcript()
+    .user("Build a CSV importer")
+    .assistant("Sure. " + "Some long explanation. ".repeat(40))
+    .tool("Edit", { file_path: "/src/csv.ts", old_string: "a", new_string: "b" }, "ok")
+    .user("Now add tests")
+    .assistant("x".repeat(800))
+    .user("Run them")
+    .assistant("Running")
+    .build();
+
+  it('should stay under the target and report before/after sizes', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+    const target = Math.floor(before * 0.6);
+
+    const plan = planTokenBudget(analyzer, target);
+
+    expect(plan.beforeTokens).toBe(before);
+    expect(plan.afterTokens).toBeLessThanOrEqual(target);
+    expect(plan.targetTokens).toBe(target);
+  });
+
+  it('should always keep the most recent turns', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    const plan = planTokenBudget(analyzer, Math.floor(before * 0.7), { protectTurns: 1 });
+
+    expect(plan.protectedFrom).toBe(7);
+    expect(plan.indicesToKeep).toEqual(expect.arrayContaining([7, 8]));
+  });
+
+  it('should prefer turns with high-value messages such as file edits', () => {
+    const analyzer = new SessionAnalyzer(transcript()
+      .user("Explain the parser")
+      .assistant("x".repeat(800))
+      .user("Fix the CSV quoting")
+      .tool("Edit", { file_path: "/src/csv.ts", old_string: "a", new_string: "b" }, "ok")
+      .assistant("y".repeat(800))
+      .user("Run them")
+      .assistant("Running")
+      .build());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    const plan = planTokenBudget(analyzer, Math.floor(before * 0.7), { protectTurns: 1 });
+
+    expect(plan.indicesToKeep).toEqual([3, 4, 5, 6, 7, 8]);
+  });
+
+  it('should never keep a reply without its prompt', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    for (const ratio of [0.5, 0.6, 0.7, 0.8, 0.9]) {
+      const kept = planTokenBudget(analyzer, Math.floor(before * ratio), { protectTurns: 1 }).indicesToKeep;
+      expect(analyzer.expandToTurns(kept)).toEqual(kept);
+    }
+  });
+
+  it('should keep tool_use and tool_result together', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    for (const ratio of [0.5, 0.6, 0.7, 0.8, 0.9]) {
+      const kept = planTokenBudget(analyzer, Math.floor(before * ratio), { protectTurns: 1 }).indicesToKeep;
+      expect(kept.includes(3)).toBe(kept.includes(4));
+    }
+  });
+
+  it('should always keep pinned messages', () => {
+    const analyzer = new SessionAnalyzer(buildSession(), ['uuid-2']);
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    const plan = planTokenBudget(analyzer, Math.floor(before * 0.6), { protectTurns: 1 });
+
+    expect(plan.indicesToKeep).toContain(2);
+  });
+
+  it('should always keep the extra lines it is given', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+    const before = planTokenBudget(analyzer, Infinity).beforeTokens;
+
+    const plan = planTokenBudget(analyzer, Math.floor(before * 0.6), { protectTurns: 1, alwaysKeep: [2] });
+
+    expect(plan.indicesToKeep).toContain(2);
+  });
+
+  it('should fail clearly when the budget cannot be met', () => {
+    const analyzer = new SessionAnalyzer(buildSession());
+
+    expect(() => planTokenBudget(analyzer, 10)).toThrow(/Cannot fit under 10 tokens/);
+  });
+});
@@ -0,0 +1,98 @@
+import type { SessionAnalyzer } from './analyzer';
+
+export interface BudgetPlan {
+  indicesToKeep: number[];
+  beforeTokens: number;
+  afterTokens: number;
+  targetTokens: number;
+  protectedFrom: number; // First line index of the protected recent turns
+}
+
+export interface BudgetOptions {
+  protectTurns?: number; // Most recent user turns that are always kept (default 2)
+  alwaysKeep?: number[];  // Further line indices that are always kept, such as the latest todo list
+}
+
+/** Parse "80000", "80k" or "1.5m" into a token count. */
+export function parseTokenCount(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([km]?)\s*$/i.exec(value);
+  if (!match) return NaN;
+  const multiplier = { '': 1, k: 1_000, m: 1_000_000 }[match[2].toLowerCase() as '' | 'k' | 'm'];
+  return Math.round(parseFloat(match[1]) * multiplier);
+}
+
+/**
+ * Pick the highest-scoring whole turns that fit under `targetTokens`, always
+ * keeping the last few turns and the turns holding pinned messages or
+ * `opts.alwaysKeep`. A turn is worth its best message, so a kept reply never
+ * loses its prompt and the pruner never has to grow the set afterwards.
+ * Throws when the protected part alone is already over budget.
+ */
+export function planTokenBudget(
+  analyzer: SessionAnalyzer,
+  targetTokens: number,
+  opts: BudgetOptions = {}
+): BudgetPlan {
+  const protectTurns = opts.protectTurns ?? 2;
+  const alwaysKeep = new Set(opts.alwaysKeep);
+  const messageIndices = analyzer.getMessageIndices();
+  const messageSet = new Set(messageIndices);
+
+  const accountant = analyzer.getTokenAccountant();
+  const beforeTokens = accountant.contextTokens();
+  // Fixed overhead plus lines that are never dropped (metadata, non-message lines)
+  let baseTokens = accountant.overhead;
+  for (let i = 0; i < analyzer.getLineCount(); i++) {
+    if (!messageSet.has(i)) baseTokens += accountant.lineTokens(i);
+  }
+
+  const protectedFrom = analyzer.recentTurnsStart(protectTurns);
+
+  // Whole turns are chosen or skipped; a tool call and its result always share one
+  const units = analyzer.getTurns().map(turn => turn.indices);
+  const scores = analyzer.getMessageScores();
+  const unitTokens = (unit: number[]) => unit.reduce((sum, i) => sum + analyzer.estimateLineTokens(i), 0);
+
+  const kept = new Set<number>();
+  let afterTokens = baseTokens;
+  const candidates: number[][] = [];
+
+  for (const unit of units) {
+    if (unit.some(i => i >= protectedFrom || analyzer.isPinned(i) || alwaysKeep.has(i))) {
+      unit.forEach(i => kept.add(i));
+      afterTokens += unitTokens(unit);
+    } else {
+      candidates.push(unit);
+    }
+  }
+
+  if (afterTokens > targetTokens) {
+    const extras = [
+      analyzer.getPinnedIndices().length > 0 ? ', pinned messages' : '',
+      alwaysKeep.size > 0 ? ', the todo list and plan' : ''
+    ].join('');
+    throw new Error(
+      `Cannot fit under ${targetTokens.toLocaleString()} tokens: ` +
+      `the last ${protectTurns} turn(s)${extras} ` +
+      `and fixed overhead alone need ~${afterTokens.toLocaleString()}`
+    );
+  }
+
+  const unitScore = (unit: number[]) => Math.max(...unit.map(i => scores.get(i) ?? 0));
+  candidates.sort((a, b) => unitScore(b) - unitScore(a) || b[0] - a[0]);
+
+  for (const unit of candidates) {
+    const cost = unitTokens(unit);
+    if (afterTokens + cost > targetTokens) continue;
+    unit.forEach(i => kept.add(i));
+    afterTokens += cost;
+  }
+
+  return {
+    indicesToKeep: [...kept].sort((a, b) => a - b),
+    beforeTokens,
+    afterTokens,
+    targetTokens,
+    protectedFrom
+  };
+}
@@ -0,0 +1,83 @@
+// Claude Code stores each message as `message.content`, either a plain string
+// or an array of the blocks below. Older lines put `content` at the top level.
+
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input?: any;
+}
+
+export interface ToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<TextBlock | ImageBlock>;
+  is_error?: boolean;
+}
+
+export interface ThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  source: {
+    type: string;
+    media_type?: string;
+    data?: string;
+    url?: string;
+  };
+}
+
+export type ContentBlock = TextBlock | ToolUseBlock | ToolResultBlock | ThinkingBlock | ImageBlock;
+
+export const FILE_EDIT_TOOLS = new Set(['Edit', 'Write', 'MultiEdit', 'NotebookEdit']);
+
+export function getContentBlocks(obj: any): ContentBlock[] {
+  const content = obj?.message?.content ?? obj?.content;
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  return Array.isArray(content) ? content.filter(b => b && typeof b === 'object') : [];
+}
+
+export function getToolUses(obj: any): ToolUseBlock[] {
+  return getContentBlocks(obj).filter((b): b is ToolUseBlock => b.type === 'tool_use' && typeof b.id === 'string');
+}
+
+export function getToolResults(obj: any): ToolResultBlock[] {
+  return getContentBlocks(obj).filter(
+    (b): b is ToolResultBlock => b.type === 'tool_result' && typeof b.tool_use_id === 'string'
+  );
+}
+
+/** Prose written by the user or assistant, excluding tool traffic and thinking. */
+export function getText(obj: any): string {
+  return getContentBlocks(obj)
+    .filter((b): b is TextBlock => b.type === 'text' && typeof b.text === 'string')
+    .map(b => b.text)
+    .join('\n');
+}
+
+export function getToolResultText(block: ToolResultBlock): string {
+  if (typeof block.content === 'string') return block.content;
+  if (!Array.isArray(block.content)) return '';
+  return block.content
+    .filter((b): b is TextBlock => b?.type === 'text' && typeof b.text === 'string')
+    .map(b => b.text)
+    .join('\n');
+}
+
+/** File path a tool call writes to, if it is a file-editing tool. */
+export function getEditedFile(block: ToolUseBlock): string | undefined {
+  if (!FILE_EDIT_TOOLS.has(block.name)) return undefined;
+  const path = block.input?.file_path ?? block.input?.notebook_path;
+  return typeof path === 'string' ? path : undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { SessionAnalyzer } from './analyzer';
+import { exportHtml, exportMarkdown, formatForPath } from './export';
+import { transcript } from './test-fixtures';
+
+const session = () => transcript()
+  .user("Run the tests")
+  .tool("Bash", { command: "npm test" }, "1 failing\n```\nstack\n```")
+  .assistant("One test fails <here>")
+  .build();
+
+describe('exportMarkdown', () => {
+  it('should render phases, messages and collapsed tool calls', () => {
+    const markdown = exportMarkdown(new SessionAnalyzer(session()), { title: 'Session abc' });
+
+    expect(markdown).toMatch(/^# Session abc\n/);
+    expect(markdown).toContain('## Phase 1:');
+    expect(markdown).toContain('### User\n\n<sub>line 2 · turn 1');
+    expect(markdown).toContain('<summary>🔧 Bash: npm test</summary>');
+    expect(markdown).toContain('<summary>Result (4 lines)</summary>');
+    expect(markdown).not.toContain('kept');
+  });
+
+  it('should fence tool output longer than any backtick run inside it', () => {
+    const markdown = exportMarkdown(new SessionAnalyzer(session()), { title: 'Session abc' });
+
+    expect(markdown).toContain('````\n1 failing\n```\nstack\n```\n````');
+  });
+
+  it('should mark kept and dropped messages in a preview', () => {
+    const markdown = exportMarkdown(new SessionAnalyzer(session()), {
+      title: 'Session abc',
+      preview: { label: 'Keep the answer', dropped: [1, 2, 3], tokens: { before: 1200, after: 300 } }
+    });
+
+    expect(markdown).toContain('**Preview:** Keep the answer');
+    expect(markdown).toContain('Keeps 1 of 4 messages, drops 3 · ~1,200 → ~300 tokens');
+    expect(markdown.match(/~~dropped~~/g)).toHaveLength(3);
+    expect(markdown).toContain('### Assistant · **kept**');
+  });
+});
+
+describe('exportHtml', () => {
+  it('should produce a self-contained page with escaped content', () => {
+    const html = exportHtml(new SessionAnalyzer(session()), {
+      title: 'Session <abc>',
+      preview: { label: 'Keep the answer', dropped: [1] }
+    });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Session &lt;abc&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<script|<link/);
+    expect(html).toContain('One test fails &lt;here&gt;');
+    expect(html).toContain('<section class="message user dropped" id="line-2">');
+    expect(html).toContain('<details class="tool-use"><summary>🔧 Bash: npm test</summary>');
+  });
+});
+
+describe('formatForPath', () => {
+  it('should pick HTML for .html and .htm files only', () => {
+    expect(formatForPath('review.html')).toBe('html');
+    expect(formatForPath('REVIEW.HTM')).toBe('html');
+    expect(formatForPath('review.md')).toBe('markdown');
+    expect(formatForPath('review')).toBe('markdown');
+  });
+});
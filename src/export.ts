@@ -0,0 +1,258 @@
+import { shortPhaseName, type MessageInfo, type SessionAnalyzer } from './analyzer';
+import { getToolResultText, type ContentBlock, type ToolResultBlock, type ToolUseBlock } from './content';
+
+// Readable renderings of a transcript: Markdown for pasting into reviews and
+// a self-contained HTML page. Tool calls, their results and thinking are
+// collapsed in <details>; with a preview, every message is marked kept or
+// dropped.
+
+export type ExportFormat = 'markdown' | 'html';
+
+export interface ExportPreview {
+  label: string;      // The strategy or selection that would be applied
+  dropped: number[];  // Line indices the prune would remove
+  tokens?: { before: number; after: number };
+}
+
+export interface ExportOptions {
+  title: string;
+  preview?: ExportPreview;
+}
+
+interface ExportEntry {
+  message: MessageInfo;
+  turn?: number;
+  tokens: number;
+  dropped?: boolean; // Only set in a preview
+  phase?: { number: number; name: string; description: string; start: number; end: number };
+}
+
+/** The format a file name asks for: .html and .htm are HTML, anything else Markdown. */
+export function formatForPath(path: string): ExportFormat {
+  return /\.html?$/i.test(path) ? 'html' : 'markdown';
+}
+
+export function exportSession(analyzer: SessionAnalyzer, format: ExportFormat, options: ExportOptions): string {
+  return format === 'html' ? exportHtml(analyzer, options) : exportMarkdown(analyzer, options);
+}
+
+export function exportMarkdown(analyzer: SessionAnalyzer, options: ExportOptions): string {
+  const out: string[] = [`# ${options.title}`, '', summaryLine(analyzer), ''];
+  const { preview } = options;
+  if (preview) {
+    out.push(`**Preview:** ${preview.label}  `, previewLine(analyzer, preview), '');
+  }
+
+  for (const entry of buildEntries(analyzer, preview)) {
+    if (entry.phase) {
+      out.push(`## ${phaseHeading(entry.phase)}`, '', `_${entry.phase.description}_`, '');
+    }
+
+    const status = entry.dropped === undefined ? '' : entry.dropped ? ' · ~~dropped~~' : ' · **kept**';
+    const pin = entry.message.isPinned ? ' · 📌 pinned' : '';
+    out.push(`### ${roleOf(entry.message)}${status}${pin}`, '', `<sub>${metaLine(entry)}</sub>`, '');
+
+    for (const block of entry.message.blocks) {
+      out.push(...markdownBlock(block), '');
+    }
+  }
+
+  return out.join('\n');
+}
+
+export function exportHtml(analyzer: SessionAnalyzer, options: ExportOptions): string {
+  const { preview } = options;
+  const body: string[] = [];
+
+  for (const entry of buildEntries(analyzer, preview)) {
+    if (entry.phase) {
+      body.push(`<h2>${escapeHtml(phaseHeading(entry.phase))}</h2>`, `<p class="phase">${escapeHtml(entry.phase.description)}</p>`);
+    }
+
+    const classes = ['message', entry.message.type];
+    if (entry.dropped !== undefined) classes.push(entry.dropped ? 'dropped' : 'kept');
+    if (entry.message.isPinned) classes.push('pinned');
+    const status = (entry.dropped === undefined ? '' : `<span class="status">${entry.dropped ? 'dropped' : 'kept'}</span>`) +
+      (entry.message.isPinned ? '<span class="pin">📌 pinned</span>' : '');
+
+    body.push(
+      `<section class="${classes.join(' ')}" id="line-${entry.message.index + 1}">`,
+      `<h3>${escapeHtml(roleOf(entry.message))} ${status}<small>${escapeHtml(metaLine(entry))}</small></h3>`,
+      ...entry.message.blocks.map(htmlBlock),
+      '</section>'
+    );
+  }
+
+  const header = [`<h1>${escapeHtml(options.title)}</h1>`, `<p>${escapeHtml(summaryLine(analyzer))}</p>`];
+  if (preview) {
+    header.push(
+      `<p class="preview"><strong>Preview:</strong> ${escapeHtml(preview.label)}<br>${escapeHtml(previewLine(analyzer, preview))}</p>`,
+      '<label><input type="checkbox" id="hide-dropped"> Hide dropped messages</label>'
+    );
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...header,
+    '<main>',
+    ...body,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+function buildEntries(analyzer: SessionAnalyzer, preview?: ExportPreview): ExportEntry[] {
+  const messageIndices = analyzer.getMessageIndices();
+  const phaseAt = new Map(analyzer.getAnalysis().workPhases.map((phase, i) => [messageIndices[phase.start], {
+    number: i + 1,
+    name: shortPhaseName(phase.description),
+    description: phase.description,
+    start: messageIndices[phase.start],
+    end: messageIndices[phase.end]
+  }]));
+  const dropped = preview ? new Set(preview.dropped) : undefined;
+
+  return analyzer.getMessageDetails().map(message => ({
+    message,
+    turn: analyzer.getTurnOf(message.index)?.number,
+    tokens: analyzer.estimateLineTokens(message.index),
+    dropped: dropped?.has(message.index),
+    phase: phaseAt.get(message.index)
+  }));
+}
+
+function summaryLine(analyzer: SessionAnalyzer): string {
+  const accountant = analyzer.getTokenAccountant();
+  const context = accountant.contextTokens();
+  return `${analyzer.getPromptIndices().length} turns · ${analyzer.getMessageDetails().length} messages · ` +
+    `~${context.toLocaleString('en-US')} tokens (${accountant.windowPercent(context)}% of the context window)`;
+}
+
+function previewLine(analyzer: SessionAnalyzer, preview: ExportPreview): string {
+  const total = analyzer.getMessageDetails().length;
+  const line = `Keeps ${total - preview.dropped.length} of ${total} messages, drops ${preview.dropped.length}`;
+  return preview.tokens
+    ? `${line} · ~${preview.tokens.before.toLocaleString('en-US')} → ~${preview.tokens.after.toLocaleString('en-US')} tokens`
+    : line;
+}
+
+function phaseHeading(phase: NonNullable<ExportEntry['phase']>): string {
+  return `Phase ${phase.number}: ${phase.name} (lines ${phase.start + 1}-${phase.end + 1})`;
+}
+
+function roleOf(message: MessageInfo): string {
+  if (message.type === 'assistant') return 'Assistant';
+  if (message.type === 'system') return 'System';
+  return message.hasToolResult && !message.content ? 'Tool result' : 'User';
+}
+
+function metaLine(entry: ExportEntry): string {
+  const parts = [`line ${entry.message.index + 1}`];
+  if (entry.turn) parts.push(`turn ${entry.turn}`);
+  if (entry.message.timestamp) parts.push(entry.message.timestamp);
+  parts.push(`~${entry.tokens} tokens`);
+  return parts.join(' · ');
+}
+
+/** Short description of what a tool call does, for its <summary>. */
+function describeToolUse(block: ToolUseBlock): string {
+  const input = block.input ?? {};
+  const detail = [input.command, input.file_path, input.notebook_path, input.pattern, input.url, input.description]
+    .find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  return detail ? `${block.name}: ${oneLine(detail)}` : block.name;
+}
+
+function describeToolResult(block: ToolResultBlock): string {
+  const lineCount = getToolResultText(block).split('\n').length;
+  return `${block.is_error ? 'Error' : 'Result'} (${lineCount} line${lineCount === 1 ? '' : 's'})`;
+}
+
+function toolResultBody(block: ToolResultBlock): string {
+  const images = Array.isArray(block.content) ? block.content.filter(b => b?.type === 'image').length : 0;
+  return getToolResultText(block) + (images > 0 ? `\n[${images} image(s)]` : '');
+}
+
+function markdownBlock(block: ContentBlock): string[] {
+  switch (block.type) {
+    case 'text':
+      return [block.text];
+    case 'thinking':
+      return markdownDetails('Thinking', block.thinking);
+    case 'tool_use':
+      return markdownDetails(`🔧 ${describeToolUse(block)}`, JSON.stringify(block.input ?? {}, null, 2), 'json');
+    case 'tool_result':
+      return markdownDetails(describeToolResult(block), toolResultBody(block));
+    case 'image':
+      return [`_[image${block.source?.media_type ? `: ${block.source.media_type}` : ''}]_`];
+    default:
+      return [];
+  }
+}
+
+function markdownDetails(summary: string, body: string, language = ''): string[] {
+  // A fence longer than any backtick run inside keeps the body verbatim
+  const longestRun = Math.max(0, ...(body.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return ['<details>', `<summary>${escapeHtml(summary)}</summary>`, '', fence + language, body, fence, '', '</details>'];
+}
+
+function htmlBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(block.text)}</div>`;
+    case 'thinking':
+      return htmlDetails('Thinking', block.thinking, 'thinking');
+    case 'tool_use':
+      return htmlDetails(`🔧 ${describeToolUse(block)}`, JSON.stringify(block.input ?? {}, null, 2), 'tool-use');
+    case 'tool_result':
+      return htmlDetails(describeToolResult(block), toolResultBody(block), block.is_error ? 'tool-result error' : 'tool-result');
+    case 'image':
+      return `<p class="image">[image${block.source?.media_type ? `: ${escapeHtml(block.source.media_type)}` : ''}]</p>`;
+    default:
+      return '';
+  }
+}
+
+function htmlDetails(summary: string, body: string, className: string): string {
+  return `<details class="${className}"><summary>${escapeHtml(summary)}</summary><pre>${escapeHtml(body)}</pre></details>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function oneLine(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 80 ? flat.slice(0, 79) + '…' : flat;
+}
+
+const STYLE = `
+body { font: 15px/1.5 system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; }
+h3 { font-size: 1rem; margin: 0 0 .5rem; }
+h3 small { font-weight: normal; color: #656d76; margin-left: .5rem; }
+.phase { color: #656d76; font-style: italic; }
+.message { border-left: 4px solid #d0d7de; padding: .5rem 1rem; margin: 1rem 0; }
+.message.assistant { background: #f6f8fa; }
+.message.kept { border-left-color: #1a7f37; }
+.message.dropped { border-left-color: #cf222e; opacity: .6; }
+.status { font-size: .75rem; text-transform: uppercase; padding: 0 .4rem; border-radius: 4px; color: #fff; }
+.kept .status { background: #1a7f37; }
+.dropped .status { background: #cf222e; }
+.pin { font-size: .75rem; margin-left: .4rem; color: #9a6700; }
+.text { white-space: pre-wrap; }
+details { margin: .25rem 0; }
+summary { cursor: pointer; color: #57606a; font-family: ui-monospace, monospace; font-size: .85rem; }
+details.error summary { color: #cf222e; }
+pre { white-space: pre-wrap; word-break: break-word; background: #fff; border: 1px solid #d0d7de; padding: .5rem; font-size: .8rem; }
+body:has(#hide-dropped:checked) .dropped { display: none; }
+`.trim();
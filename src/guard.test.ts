@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs-extra';
+import { createBackup, hashContent } from './backups';
+import { detectActiveSession, stampFile, writeFileAtomic } from './guard';
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'claude-prune-guard-'));
+    file = join(dir, 'abc.jsonl');
+    await fs.writeFile(file, 'original\n', { mode: 0o600 });
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should replace the file and keep its mode', async () => {
+    const stamp = await stampFile(file);
+
+    await writeFileAtomic(file, 'pruned\n', stamp);
+
+    expect(await fs.readFile(file, 'utf8')).toBe('pruned\n');
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    expect(await fs.readdir(dir)).toEqual(['abc.jsonl']);
+  });
+
+  it('should refuse to write over a file that changed since it was stamped', async () => {
+    const stamp = await stampFile(file);
+    await fs.appendFile(file, 'appended by Claude Code\n');
+
+    await expect(writeFileAtomic(file, 'pruned\n', stamp)).rejects.toThrow('changed while claude-prune was working on it');
+
+    expect(await fs.readFile(file, 'utf8')).toBe('original\nappended by Claude Code\n');
+    expect(await fs.readdir(dir)).toEqual(['abc.jsonl']);
+  });
+
+  it('should create a missing file', async () => {
+    await writeFileAtomic(join(dir, 'new.jsonl'), 'fresh\n');
+
+    expect(await fs.readFile(join(dir, 'new.jsonl'), 'utf8')).toBe('fresh\n');
+  });
+});
+
+describe('detectActiveSession', () => {
+  let root: string;
+  let proc: string;
+  let file: string;
+  const later = Date.now() + 3_600_000; // Well past the recent-write window
+
+  const fakeProcess = async (pid: number, args: string[], cwd: string, openFiles: string[] = []) => {
+    const dir = join(proc, String(pid));
+    await fs.outputFile(join(dir, 'cmdline'), args.join('\0') + '\0');
+    await fs.symlink(cwd, join(dir, 'cwd'));
+    await fs.ensureDir(join(dir, 'fd'));
+    for (const [fd, target] of openFiles.entries()) {
+      await fs.symlink(target, join(dir, 'fd', String(fd)));
+    }
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'claude-prune-active-'));
+    proc = join(root, 'proc');
+    file = join(root, 'projects', '-work-app', 'abc.jsonl');
+    await fs.outputFile(file, '{}\n');
+    await fs.ensureDir(proc);
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('should flag a recently written transcript', async () => {
+    expect(await detectActiveSession(file, 'abc', Date.now(), proc)).toEqual([
+      expect.stringMatching(/^the transcript was written \d+s ago$/)
+    ]);
+    expect(await detectActiveSession(file, 'abc', later, proc)).toEqual([]);
+  });
+
+  it('should not count its own latest write as activity', async () => {
+    await createBackup(file, 'abc', { strategy: 'recent', resultHash: hashContent('pruned\n') });
+    await fs.writeFile(file, 'pruned\n');
+
+    expect(await detectActiveSession(file, 'abc', Date.now(), proc)).toEqual([]);
+
+    await fs.appendFile(file, 'appended by Claude Code\n');
+    expect(await detectActiveSession(file, 'abc', Date.now(), proc)).toHaveLength(1);
+  });
+
+  it('should flag claude processes holding the session', async () => {
+    await fakeProcess(100, ['claude'], '/elsewhere', [file]);
+    await fakeProcess(200, ['node', '/usr/lib/node_modules/@anthropic-ai/claude-code/cli.js', '--resume', 'abc'], '/elsewhere');
+
+    expect(await detectActiveSession(file, 'abc', later, proc)).toEqual([
+      'claude process 100 has the transcript open',
+      'claude process 200 was started with this session id'
+    ]);
+  });
+
+  it('should ignore other programs and other sessions of the same project', async () => {
+    await fakeProcess(100, ['vim', file], '/work/app', [file]);
+    await fakeProcess(200, ['node', '/usr/bin/claude-prune', 'abc'], '/work/app');
+    await fakeProcess(300, ['/usr/local/bin/claude'], '/work/app');
+
+    expect(await detectActiveSession(file, 'abc', later, proc)).toEqual([]);
+  });
+
+  it('should work without a /proc', async () => {
+    expect(await detectActiveSession(file, 'abc', later, join(root, 'missing'))).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { basename, dirname, join } from 'path';
+import fs from 'fs-extra';
+import { hashContent, listBackups } from './backups';
+
+// Claude Code appends to a transcript while the session is open, so rewriting
+// it underneath can lose lines. Writes go through a temp file and a rename,
+// and only if the transcript is unchanged since it was read.
+
+// A transcript written to this recently is probably still open
+export const RECENT_WRITE_MS = 2 * 60_000;
+
+export interface FileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+export async function stampFile(path: string): Promise<FileStamp> {
+  const stat = await fs.stat(path);
+  return { size: stat.size, mtimeMs: stat.mtimeMs };
+}
+
+/**
+ * Replace `path` with `content` through a temp file in the same directory and
+ * a rename, so readers never see a half-written file. With `expected`, refuses
+ * (and writes nothing) if the file changed since that stamp was taken.
+ */
+export async function writeFileAtomic(path: string, content: string | Buffer, expected?: FileStamp): Promise<void> {
+  const temp = join(dirname(path), `.${basename(path)}.${process.pid}.tmp`);
+  await fs.writeFile(temp, content);
+
+  try {
+    if (await fs.pathExists(path)) {
+      const stat = await fs.stat(path);
+      if (expected && (stat.size !== expected.size || stat.mtimeMs !== expected.mtimeMs)) {
+        throw new Error(`${path} changed while claude-prune was working on it; nothing was written. Run it again`);
+      }
+      await fs.chmod(temp, stat.mode);
+    }
+    await fs.rename(temp, path);
+  } catch (error) {
+    await fs.remove(temp);
+    throw error;
+  }
+}
+
+/**
+ * Reasons to think a session is open in Claude Code right now: a recent write
+ * that claude-prune didn't make, or a running `claude` process that has the
+ * transcript open or was started with its id. Empty when it looks safe to
+ * rewrite.
+ */
+export async function detectActiveSession(
+  sessionFile: string,
+  sessionId: string,
+  now: number = Date.now(),
+  procRoot: string = '/proc'
+): Promise<string[]> {
+  const reasons: string[] = [];
+
+  if (await fs.pathExists(sessionFile)) {
+    const { mtimeMs } = await fs.stat(sessionFile);
+    const age = now - mtimeMs;
+    if (age < RECENT_WRITE_MS && !(await writtenByClaudePrune(sessionFile, sessionId, mtimeMs))) {
+      reasons.push(`the transcript was written ${Math.max(0, Math.round(age / 1000))}s ago`);
+    }
+  }
+
+  for (const proc of await findClaudeProcesses(procRoot)) {
+    const label = `claude process ${proc.pid}`;
+    if (proc.openFiles.includes(sessionFile)) {
+      reasons.push(`${label} has the transcript open`);
+    } else if (proc.args.includes(sessionId)) {
+      reasons.push(`${label} was started with this session id`);
+    }
+  }
+
+  return reasons;
+}
+
+/** Whether the file is still exactly what claude-prune wrote after its latest backup. */
+async function writtenByClaudePrune(sessionFile: string, sessionId: string, mtimeMs: number): Promise<boolean> {
+  const [latest] = await listBackups(sessionFile, sessionId);
+  // File times come from a coarser clock than Date.now(), so allow a second of slack
+  if (!latest?.manifest?.resultHash || mtimeMs < latest.timestamp - 1000) return false;
+  return hashContent(await fs.readFile(sessionFile)) === latest.manifest.resultHash;
+}
+
+interface ClaudeProcess {
+  pid: number;
+  args: string[];
+  openFiles: string[];
+}
+
+/** Running Claude Code processes, from /proc; none where it doesn't exist. */
+async function findClaudeProcesses(procRoot: string): Promise<ClaudeProcess[]> {
+  if (!(await fs.pathExists(procRoot))) return [];
+
+  const processes: ClaudeProcess[] = [];
+  for (const entry of await fs.readdir(procRoot)) {
+    const pid = parseInt(entry);
+    if (String(pid) !== entry || pid === process.pid) continue;
+
+    const dir = join(procRoot, entry);
+    // Processes come and go, and others' details may be unreadable
+    const args = (await fs.readFile(join(dir, 'cmdline'), 'utf8').catch(() => '')).split('\0').filter(Boolean);
+    if (!isClaudeCommand(args)) continue;
+
+    const fds = await fs.readdir(join(dir, 'fd')).catch(() => [] as string[]);
+    const openFiles: string[] = [];
+    for (const fd of fds) {
+      const target = await fs.readlink(join(dir, 'fd', fd)).catch(() => undefined);
+      if (target) openFiles.push(target);
+    }
+
+    processes.push({ pid, args, openFiles });
+  }
+  return processes;
+}
+
+/** `claude ...`, or `node .../claude` and `node .../@anthropic-ai/claude-code/cli.js` */
+function isClaudeCommand(args: string[]): boolean {
+  return args.slice(0, 2).some(arg => basename(arg) === 'claude' || arg.includes('claude-code/cli'));
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { pruneSessionLines, findLatestBackup } from './index.js';
+import { readFileSync } from 'fs';
+import { pruneSessionLines, findLatestBackup, program } from './index.js';
+import { VERSION } from './version';
 
 describe('pruneSessionLines', () => {
   const createMessage = (type: string, uuid: string, content: string = "test") => 
@@ -34,9 +36,9 @@ describe('pruneSessionLines', () => {
 
     const result = pruneSessionLines(lines, 2);
     
-    expect(result.outLines).toHaveLength(4); // summary + 3 messages from assistant 2 onward
-    expect(result.kept).toBe(3);
-    expect(result.dropped).toBe(3);
+    expect(result.outLines).toHaveLength(5); // summary + the turns of assistants 2 and 3
+    expect(result.kept).toBe(4);
+    expect(result.dropped).toBe(2);
     expect(result.assistantCount).toBe(3);
   });
 
@@ -148,6 +150,22 @@ describe('pruneSessionLines', () => {
     expect(result.dropped).toBe(2);
     expect(result.assistantCount).toBe(1);
   });
+
+  it('should cut at the start of a turn so its prompt and tool traffic stay together', () => {
+    const lines = [
+      createSummary("Session summary"),
+      createMessage("user", "1"),
+      JSON.stringify({ type: "assistant", uuid: "2", message: { content: [{ type: "tool_use", id: "toolu_1", name: "Bash", input: {} }] } }),
+      createMessage("assistant", "3"),
+      JSON.stringify({ type: "user", uuid: "4", message: { content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "ok" }] } }),
+    ];
+
+    const result = pruneSessionLines(lines, 1);
+
+    expect(result.kept).toBe(4);
+    expect(result.dropped).toBe(0);
+    expect(result.pairAdjustments).toEqual([]);
+  });
 });
 
 describe('findLatestBackup', () => {
@@ -226,6 +244,22 @@ describe('findLatestBackup', () => {
     });
   });
 
+  it('should include compressed snapshots and skip manifests', () => {
+    const backupFiles = [
+      'abc123.jsonl.1000',
+      'abc123.jsonl.2000.snap.gz',
+      'abc123.jsonl.3000.json',
+      'abc123.pack.gz',
+    ];
+
+    const result = findLatestBackup(backupFiles, 'abc123');
+
+    expect(result).toEqual({
+      name: 'abc123.jsonl.2000.snap.gz',
+      timestamp: 2000
+    });
+  });
+
   it('should sort by timestamp correctly with multiple valid backups', () => {
     const backupFiles = [
       'abc123.jsonl.1000', // smallest
@@ -240,4 +274,31 @@ describe('findLatestBackup', () => {
       timestamp: 3000
     });
   });
-});
\ No newline at end of file
+});
+
+describe('CLI definition', () => {
+  const flags = (options: readonly { long?: string }[]) =>
+    options.map(o => o.long).filter(f => f !== '--version').sort();
+
+  it('should give the prune subcommand and the default command the same options', () => {
+    const prune = program.commands.find(c => c.name() === 'prune')!;
+
+    expect(flags(prune.options)).toEqual(flags(program.options));
+    expect(flags(prune.options)).toEqual(expect.arrayContaining(['--first', '--last', '--ratio', '--strategy']));
+  });
+
+  it('should leave options after a subcommand to that subcommand', () => {
+    const prune = program.commands.find(c => c.name() === 'prune')!;
+    const parsed = prune.parseOptions(['abc', '--first', '3', '--dry-run']);
+
+    expect(parsed.operands).toEqual(['abc']);
+    expect(prune.opts()).toMatchObject({ first: 3, dryRun: true });
+  });
+
+  it('should report the version from package.json', () => {
+    const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+
+    expect(VERSION).toBe(pkg.version);
+    expect(program.version()).toBe(VERSION);
+  });
+});
@@ -1,136 +1,221 @@
 #!/usr/bin/env node
-import { homedir } from "os";
-import { join, basename } from "path";
+import { join } from "path";
 import fs from "fs-extra";
 import { Command } from "commander";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { type Ora } from "ora";
 import { confirm } from "@clack/prompts";
-import { SessionAnalyzer } from "./analyzer";
-import { InteractiveUI } from "./interactive";
-import { SmartPruner } from "./pruner";
+import { SessionAnalyzer, workingStateIndices } from "./analyzer";
+import { InteractiveUI, pickSession } from "./interactive";
+import { SmartPruner, type PruneResult, type PrunerOptions } from "./pruner";
+import { parseTokenCount, planTokenBudget } from "./budget";
+import { TokenAccountant, formatTokens } from "./tokens";
+import { createRegistry, loadCustomStrategies, type StrategyRegistry } from "./strategies";
+import {
+  createBackup,
+  deleteBackups,
+  describeDropped,
+  diffTranscripts,
+  hashContent,
+  listBackups,
+  migrateBackups,
+  parseBackupName,
+  readBackup,
+  resolveBackup,
+  selectExpiredBackups,
+  verifyBackup,
+  type BackupInfo
+} from "./backups";
+import { evaluateSelection, parseDuration } from "./selection";
+import type { PruneOptions } from "./types";
+import { DEFAULT_STRIP_TURNS, DEFAULT_TRIM_LINES, formatBytes } from "./transforms";
+import {
+  backupDirFor,
+  findSessionFile,
+  formatRelativeTime,
+  listSessions,
+  projectDirFor,
+  type SessionSummary
+} from "./sessions";
+import { VERSION } from "./version";
+import { detectActiveSession, stampFile, writeFileAtomic, type FileStamp } from "./guard";
+import { fixTranscript, introducedErrors, verifyTranscript, type TranscriptIssue } from "./verify";
+import { buildAnalysisReport, buildPruneReport, buildRestoreReport } from "./report";
+import { exportSession, formatForPath, type ExportFormat, type ExportPreview } from "./export";
+import { addPins, loadPins, removePins, resolvePinTarget } from "./pins";
+
+// Share of messages --non-interactive keeps when no strategy is named
+const AUTO_RECENT_RATIO = 0.6;
+
+// ---------- Output ----------
+// With --json, stdout carries only the JSON document
+let jsonOutput = false;
+
+function say(...args: unknown[]) {
+  if (!jsonOutput) console.log(...args);
+}
+
+function emitJson(report: object) {
+  console.log(JSON.stringify(report, null, 2));
+}
+
+/** Fail the spinner, or report on stderr when --json silences spinners. */
+function failSpinner(spinner: Ora, message: string) {
+  if (jsonOutput) {
+    console.error(chalk.red(`❌ ${message}`));
+  } else {
+    spinner.fail(chalk.red(message));
+  }
+}
 
 // ---------- CLI Definition ----------
-const program = new Command()
+export const program = new Command()
   .name("claude-prune")
   .description("Prune early messages from a Claude Code session.jsonl file")
-  .version("2.0.0");
+  .version(VERSION)
+  // Options after a subcommand belong to it, not to the default command
+  .enablePositionalOptions();
 
-program
-  .command("prune")
-  .description("Intelligently prune messages from a Claude session")
-  .argument("<sessionId>", "UUID of the session (without .jsonl)")
-  .option("-k, --keep <number>", "number of messages to keep (legacy mode)", parseInt)
-  .option("--dry-run", "show what would happen but don't write")
-  .option("--non-interactive", "skip interactive mode, use auto strategy")
-  .action(main);
+addPruneOptions(
+  program
+    .command("prune")
+    .description("Intelligently prune messages from a Claude session")
+).action(main);
 
-program
-  .command("restore")
-  .description("Restore a session from the latest backup")
-  .argument("<sessionId>", "UUID of the session to restore (without .jsonl)")
+addSessionOptions(
+  program
+    .command("restore")
+    .description("Restore a session from a backup (the latest unless --at is given)")
+)
+  .option("--at <backup>", "backup to restore: its number in `backups list`, a timestamp or a date")
   .option("--dry-run", "show what would be restored but don't write")
+  .option("--force", "write even if the session looks open in Claude Code")
+  .option("--json", "print a JSON report instead of prose, without prompts")
   .action(restore);
 
-// Default command - run prune interactively
-program
-  .argument("[sessionId]", "UUID of the session (without .jsonl)")
-  .option("-k, --keep <number>", "number of messages to keep (legacy mode)", parseInt)
-  .option("--dry-run", "show what would happen but don't write")
-  .option("--non-interactive", "skip interactive mode, use auto strategy")
-  .action((sessionId, opts) => {
-    if (sessionId) {
-      main(sessionId, opts);
-    } else {
-      program.help();
-    }
-  });
+const backupsCommand = program
+  .command("backups")
+  .description("List, compare, restore and clean up session backups");
 
-// Extract core logic for testing
-export function pruneSessionLines(lines: string[], keepN: number): { outLines: string[], kept: number, dropped: number, assistantCount: number } {
-  const MSG_TYPES = new Set(["user", "assistant", "system"]);
-  const msgIndexes: number[] = [];
-  const assistantIndexes: number[] = [];
-
-  // Pass 1 – locate message objects (skip first line entirely)
-  lines.forEach((ln, i) => {
-    if (i === 0) return; // Always preserve first item
-    try {
-      const { type } = JSON.parse(ln);
-      if (MSG_TYPES.has(type)) {
-        msgIndexes.push(i);
-        if (type === "assistant") {
-          assistantIndexes.push(i);
-        }
-      }
-    } catch { /* non-JSON diagnostic line – keep as-is */ }
-  });
+addSessionOptions(backupsCommand.command("list").description("List the backups of a session, newest first"))
+  .action(listBackupsCommand);
 
-  const total = msgIndexes.length;
-  const keepNSafe = Math.max(0, keepN);
-  
-  // Find the cutoff point based on last N assistant messages
-  let cutFrom = 0;
-  if (assistantIndexes.length > keepNSafe) {
-    cutFrom = assistantIndexes[assistantIndexes.length - keepNSafe];
-  }
+addSessionOptions(backupsCommand.command("show").description("Show what a backup's manifest recorded about the prune"))
+  .option("--at <backup>", "backup to show: its number in `backups list`, a timestamp or a date (default: the latest)")
+  .action(showBackupCommand);
 
-  // Pass 2 – build pruned output
-  const outLines: string[] = [];
-  let kept = 0;
-  let dropped = 0;
+addSessionOptions(backupsCommand.command("restore").description("Restore a specific backup"))
+  .option("--at <backup>", "backup to restore: its number in `backups list`, a timestamp or a date")
+  .option("--dry-run", "show what would be restored but don't write")
+  .option("--force", "write even if the session looks open in Claude Code")
+  .option("--json", "print a JSON report instead of prose, without prompts")
+  .action(restore);
 
-  // Always include first line
-  if (lines.length > 0) {
-    outLines.push(lines[0]);
-  }
+addSessionOptions(backupsCommand.command("diff").description("Show which messages differ between a backup and the session"))
+  .option("--from <backup>", "backup to compare from (default: the latest)")
+  .option("--to <backup>", "backup to compare to, or \"current\" (default: current)")
+  .action(diffBackupsCommand);
 
-  // HACK: Zero out ONLY the last non-zero cache_read_input_tokens to trick UI percentage
-  let lastNonZeroCacheLineIndex = -1;
-  let lastNonZeroCacheValue = 0;
-  
-  // First pass: find the last non-zero cache line
-  lines.forEach((ln, i) => {
-    try {
-      const obj = JSON.parse(ln);
-      const usageObj = obj.usage || obj.message?.usage;
-      if (usageObj?.cache_read_input_tokens && usageObj.cache_read_input_tokens > 0) {
-        lastNonZeroCacheLineIndex = i;
-        lastNonZeroCacheValue = usageObj.cache_read_input_tokens;
-      }
-    } catch { /* not JSON, skip */ }
-  });
+addSessionOptions(backupsCommand.command("migrate").description("Compress plain backups from older versions into the backup store"))
+  .option("--all", "migrate the backups of every session in the project")
+  .action(migrateBackupsCommand);
 
-  // Second pass: process lines and zero out only the last non-zero cache line
-  const processedLines = lines.map((ln, i) => {
-    if (i === lastNonZeroCacheLineIndex) {
-      try {
-        const obj = JSON.parse(ln);
-        const usageObj = obj.usage || obj.message?.usage;
-        usageObj.cache_read_input_tokens = 0;
-        return JSON.stringify(obj);
-      } catch { /* should not happen since we found it in first pass */ }
-    }
-    return ln;
-  });
+addSessionOptions(backupsCommand.command("prune").description("Delete old backups of a session"))
+  .option("--keep-last <n>", "always keep the n newest backups", parseInt)
+  .option("--older-than <age>", "only delete backups older than this, e.g. 30d or 12h", parseDuration)
+  .option("--dry-run", "list what would be deleted but don't delete")
+  .action(pruneBackupsCommand);
 
-  processedLines.forEach((ln, idx) => {
-    if (idx === 0) return; // Already added above
-    
-    const isMsg = MSG_TYPES.has((() => { try { return JSON.parse(ln).type; } catch { return ""; } })());
-    if (isMsg) {
-      if (idx >= cutFrom) { 
-        kept++; 
-        outLines.push(ln); 
-      } else { 
-        dropped++; 
-      }
-    } else {
-      outLines.push(ln); // always keep tool lines, etc.
-    }
-  });
+addSessionOptions(
+  program
+    .command("analyze")
+    .description("Show how a session breaks down into turns, phases and key messages")
+)
+  .option("--json", "print the full analysis, with per-message details, as JSON")
+  .action(analyze);
+
+addSessionOptions(
+  program
+    .command("export")
+    .description("Render a session as Markdown or HTML, optionally marking what a prune would drop")
+)
+  .option("-o, --output <file>", "write to a file instead of stdout; .html picks HTML")
+  .option("--format <format>", "markdown or html (default: from --output, else markdown)")
+  .option("--preview", "mark the messages the default prune would keep and drop")
+  .option("--strategy <name>", "preview this strategy instead of the default")
+  .option("--first <n>", "preview keeping the first n turns (bookends)", parseInt)
+  .option("--last <n>", "preview keeping the last n turns (bookends)", parseInt)
+  .option("--ratio <r>", "preview keeping this share, 0-1", parseFloat)
+  .option("--select <expr>", "preview the messages matched by a selection")
+  .option("--no-keep-state", "preview without keeping the latest todo list and approved plan")
+  .action(exportCommand);
+
+addSessionOptions(
+  program
+    .command("pin")
+    .description("Pin messages so no prune drops them, or list the pinned messages")
+)
+  .argument("[messages...]", "line numbers (as shown by analyze and export) or uuids of the messages")
+  .option("--remove", "unpin the messages instead")
+  .action(pinCommand);
 
-  return { outLines, kept, dropped, assistantCount: assistantIndexes.length };
+addSessionOptions(
+  program
+    .command("verify")
+    .alias("doctor")
+    .description("Check a session transcript for structural problems")
+)
+  .option("--fix", "repair the problems that are safe to fix by removing lines (backs up first)")
+  .option("--force", "write even if the session looks open in Claude Code")
+  .action(verify);
+
+program
+  .command("list")
+  .description("List Claude Code sessions, newest first")
+  .option("--project <path>", "only sessions of this project directory")
+  .option("-s, --search <text>", "only sessions whose id, project or first prompt contains text")
+  .option("-n, --limit <number>", "maximum number of sessions to show", parseInt, 20)
+  .action(list);
+
+// Default command - run prune interactively
+addPruneOptions(program).action(main);
+
+/** The session argument and the options that locate it. */
+function addSessionOptions(command: Command): Command {
+  return command
+    .argument("[sessionId]", "UUID of the session (without .jsonl); pick interactively if omitted")
+    .option("--latest", "use the most recently modified session of the project")
+    .option("--project <path>", "project directory the session belongs to (default: cwd)");
+}
+
+/** Arguments and options shared by `prune` and the default command, so both parse identically. */
+function addPruneOptions(command: Command): Command {
+  return command
+    .argument("[sessionId]", "UUID of the session (without .jsonl); pick interactively if omitted")
+    .option("-k, --keep <number>", "number of messages to keep (legacy mode)", parseInt)
+    .option("--dry-run", "show what would happen but don't write")
+    .option("--force", "write even if the session looks open in Claude Code")
+    .option("--json", "print a JSON report instead of prose; implies --non-interactive")
+    .option("--non-interactive", "skip interactive mode, use auto strategy")
+    .option("--strategy <name>", "prune with a registered strategy (recent, bookends, smart, keep, or one from .claude-prune.json)")
+    .option("--first <n>", "keep the first n turns (bookends)", parseInt)
+    .option("--last <n>", "keep the last n turns (bookends)", parseInt)
+    .option("--ratio <r>", "share to keep, 0-1: of messages for recent, of turns with --strategy smart", parseFloat)
+    .option("--select <expr>", "keep the messages matched by a selection, e.g. \"last:30 + edits - phase:Explore\"")
+    .option("-t, --target-tokens <n>", "keep the most valuable messages that fit under n tokens (e.g. 80k)", parseTokenCount)
+    .option("--trim [lines]", `shorten tool outputs to at most this many lines (default ${DEFAULT_TRIM_LINES}); combines with any strategy`, parseInt)
+    .option("--dedupe-reads", "elide earlier file reads superseded by a later read or edit; combines with any strategy")
+    .option("--summarize", "replace each dropped span with a short extractive summary message")
+    .option("--strip-thinking [turns]", `remove thinking blocks older than the last n turns (default ${DEFAULT_STRIP_TURNS})`, parseInt)
+    .option("--strip-images [turns]", `replace images older than the last n turns with a placeholder (default ${DEFAULT_STRIP_TURNS})`, parseInt)
+    .option("--no-keep-state", "let the prune drop the latest todo list and approved plan like any other message")
+    .option("--latest", "use the most recently modified session of the project")
+    .option("--project <path>", "project directory the session belongs to (default: cwd)");
+}
+
+// Extract core logic for testing
+export function pruneSessionLines(lines: string[], keepN: number, options: PrunerOptions = {}): PruneResult & { assistantCount: number } {
+  return SmartPruner.pruneSessionLines(lines, keepN, options);
 }
 
 // Only run CLI if not in test environment
@@ -138,19 +223,94 @@ if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
   program.parse();
 }
 
+// ---------- Session Resolution ----------
+interface SessionLocator {
+  latest?: boolean;
+  project?: string;
+  json?: boolean; // Never prompt for a session
+}
+
+async function resolveSession(sessionId: string | undefined, opts: SessionLocator): Promise<{ sessionId: string; file: string }> {
+  const project = opts.project ?? process.cwd();
+
+  if (sessionId) {
+    const file = await findSessionFile(sessionId, project)
+      ?? join(projectDirFor(project), `${sessionId}.jsonl`);
+    return { sessionId, file };
+  }
+
+  if (opts.latest) {
+    const [newest] = await listSessions({ project, limit: 1 });
+    if (!newest) {
+      console.error(chalk.red(`❌ No sessions found for ${project}`));
+      process.exit(1);
+    }
+    return { sessionId: newest.id, file: newest.file };
+  }
+
+  if (!process.stdin.isTTY || opts.json) {
+    console.error(chalk.red("❌ No sessionId given. Pass one, or use --latest"));
+    process.exit(1);
+  }
+
+  let sessions = await listSessions({ project });
+
+  if (sessions.length === 0 && !opts.project) {
+    sessions = await listSessions();
+  }
+  if (sessions.length === 0) {
+    console.error(chalk.red(`❌ No sessions found`));
+    process.exit(1);
+  }
+
+  const picked = await pickSession(sessions);
+  if (!picked) {
+    console.log(chalk.yellow("Cancelled"));
+    process.exit(0);
+  }
+  return { sessionId: picked.id, file: picked.file };
+}
+
 // ---------- Main ----------
-async function main(sessionId: string, opts: { keep?: number; dryRun?: boolean; nonInteractive?: boolean }) {
-  const cwdProject = process.cwd().replace(/\//g, '-').replace(/ /g, '-');
-  const file = join(homedir(), ".claude", "projects", cwdProject, `${sessionId}.jsonl`);
+async function main(
+  sessionIdArg: string | undefined,
+  opts: SessionLocator & {
+    keep?: number;
+    dryRun?: boolean;
+    nonInteractive?: boolean;
+    strategy?: string;
+    first?: number;
+    last?: number;
+    ratio?: number;
+    select?: string;
+    targetTokens?: number;
+    trim?: number | boolean;
+    dedupeReads?: boolean;
+    summarize?: boolean;
+    stripThinking?: number | boolean;
+    stripImages?: number | boolean;
+    keepState?: boolean;
+    force?: boolean;
+    json?: boolean;
+  }
+) {
+  jsonOutput = Boolean(opts.json);
+  const canPrompt = process.stdin.isTTY && !opts.json;
+  // Bad flags fail before any session is looked up or guarded
+  const strategyName = strategyNameFor(opts);
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
 
   if (!(await fs.pathExists(file))) {
     console.error(chalk.red(`❌ No transcript at ${file}`));
     process.exit(1);
   }
 
+  if (!opts.dryRun) await guardActiveSession(file, sessionId, opts.force);
+
   // Cool glitch loading animation
   const spinner = ora({
     text: chalk.gray('⟨⟨ ANALYZING ⟩⟩'),
+    isSilent: jsonOutput,
     spinner: {
       interval: 80,
       frames: [
@@ -168,163 +328,422 @@ async function main(sessionId: string, opts: { keep?: number; dryRun?: boolean;
     }
   }).start();
   
-  const raw = await fs.readFile(file, "utf8");
-  const lines = raw.split(/\r?\n/).filter(Boolean);
+  // Taken before reading, so any append after it blocks the write
+  const stamp = await stampFile(file);
+  const content = await fs.readFile(file);
+  const lines = content.toString("utf8").split(/\r?\n/).filter(Boolean);
   
   // Quick flash through the scan
-  await new Promise(resolve => setTimeout(resolve, 600));
+  if (!jsonOutput) await new Promise(resolve => setTimeout(resolve, 600));
   spinner.succeed(chalk.gray('⟨⟨ ') + chalk.green('COMPLETE') + chalk.gray(' ⟩⟩'));
 
-  let result: { outLines: string[]; kept: number; dropped: number; strategy: string };
+  const registry = await loadRegistry(opts.project);
+
+  let result: PruneResult;
+  // Recorded in the backup manifest; session-locating and output flags don't shape the result
+  const { project, latest, dryRun, nonInteractive, force, json, keepState, ...flags } = opts;
+  const pruneFlags = keepState === false ? { ...flags, keepState } : flags;
+  let recordedOptions: Record<string, unknown> = pruneFlags;
+  const pinnedUuids = await loadPinnedUuids(file, sessionId);
+  const analyzer = new SessionAnalyzer(lines, pinnedUuids);
+  // The most recent turn always keeps its thinking and images
+  const stripBefore = (turns: number | boolean | undefined) => turns === undefined || turns === false
+    ? undefined
+    : analyzer.recentTurnsStart(turns === true ? DEFAULT_STRIP_TURNS : Math.max(1, turns || DEFAULT_STRIP_TURNS));
+  const prunerOptions: PrunerOptions = {
+    trimToolResults: opts.trim === true ? DEFAULT_TRIM_LINES : (opts.trim || undefined),
+    staleReads: opts.dedupeReads ? analyzer.findStaleReads() : undefined,
+    summarizeDropped: opts.summarize,
+    stripThinkingBefore: stripBefore(opts.stripThinking),
+    stripImagesBefore: stripBefore(opts.stripImages),
+    pinnedUuids,
+    workingState: keepState === false ? undefined : analyzer.findWorkingState()
+  };
 
   // Legacy mode: use -k flag
-  if (opts.keep) {
-    const legacyResult = pruneSessionLines(lines, opts.keep);
+  if (opts.keep && !strategyName && !opts.select) {
+    const legacyResult = pruneSessionLines(lines, opts.keep, prunerOptions);
     result = {
-      outLines: legacyResult.outLines,
-      kept: legacyResult.kept,
-      dropped: legacyResult.dropped,
+      ...legacyResult,
       strategy: `Legacy: keep last ${opts.keep} assistant messages`
     };
     
-    console.log(chalk.yellow("\nUsing legacy mode. Run without -k flag for interactive pruning.\n"));
-    console.log(`${chalk.green("Scanned")} ${lines.length} lines`);
-    console.log(`Will keep ${result.kept} messages, drop ${result.dropped}`);
+    say(chalk.yellow("\nUsing legacy mode. Run without -k flag for interactive pruning.\n"));
+    say(`${chalk.green("Scanned")} ${lines.length} lines`);
+    say(`Will keep ${result.kept} messages, drop ${result.dropped}`);
+    printAdjustments(result, analyzer.getTokenAccountant());
     
-    if (!opts.dryRun && process.stdin.isTTY) {
+    if (!opts.dryRun && canPrompt) {
       const ok = await confirm({ message: chalk.yellow("Proceed?"), initialValue: true });
       if (!ok) process.exit(0);
     }
   } 
   // New interactive mode
   else {
-    const analyzer = new SessionAnalyzer(lines);
-    
-    if (opts.nonInteractive) {
-      // Auto mode: use smart default strategy
-      const messageIndices = analyzer.getMessageIndices();
-      const totalMessages = messageIndices.length;
-      const recentStart = Math.floor(totalMessages * 0.4);
-      const indicesToKeep = messageIndices.slice(recentStart);
-      
+    if (opts.targetTokens !== undefined) {
+      // Budget mode: fit under a token target
+      if (isNaN(opts.targetTokens) || opts.targetTokens <= 0) {
+        console.error(chalk.red("❌ --target-tokens expects a token count like 80000 or 80k"));
+        process.exit(1);
+      }
+
+      let plan;
+      try {
+        plan = planTokenBudget(analyzer, opts.targetTokens, { alwaysKeep: workingStateIndices(prunerOptions.workingState) });
+      } catch (error) {
+        console.error(chalk.red(`❌ ${(error as Error).message}`));
+        process.exit(1);
+      }
+
+      const pruner = new SmartPruner(lines);
+      result = pruner.pruneWithIndices(plan.indicesToKeep, `Token budget (≤ ${formatTokens(plan.targetTokens)} tokens)`, prunerOptions);
+
+      say(`\nToken budget: ~${formatTokens(plan.beforeTokens)} → ~${formatTokens(plan.afterTokens)} tokens (target ${formatTokens(plan.targetTokens)})`);
+      say(`Will keep ${result.kept} messages, drop ${result.dropped}`);
+      printAdjustments(result, analyzer.getTokenAccountant());
+      say('');
+
+      if (!opts.dryRun && canPrompt) {
+        const ok = await confirm({ message: chalk.yellow("Proceed?"), initialValue: true });
+        if (!ok) process.exit(0);
+      }
+    } else if (opts.select || strategyName || opts.nonInteractive || opts.json) {
+      const { indicesToKeep, label } = chooseMessages(analyzer, registry, opts, strategyName);
+
       const pruner = new SmartPruner(lines);
-      result = pruner.pruneWithIndices(indicesToKeep, "Auto: recent work");
+      result = pruner.pruneWithIndices(indicesToKeep, label, prunerOptions);
       
-      console.log(`\nAuto-pruning: keeping messages ${recentStart + 1}-${totalMessages}`);
-      console.log(`Will keep ${result.kept} messages, drop ${result.dropped}\n`);
+      say(opts.select
+        ? `\n${label}`
+        : strategyName
+          ? `\nStrategy ${strategyName}: ${label}`
+          : `\nAuto-pruning: keeping the last ${indicesToKeep.length} messages`);
+      say(`Will keep ${result.kept} messages, drop ${result.dropped}`);
+      printAdjustments(result, analyzer.getTokenAccountant());
+      say('');
       
-      if (!opts.dryRun && process.stdin.isTTY) {
+      if (!opts.dryRun && canPrompt) {
         const ok = await confirm({ message: chalk.yellow("Proceed?"), initialValue: true });
         if (!ok) process.exit(0);
       }
     } else {
       // Interactive mode
-      const ui = new InteractiveUI(analyzer);
+      const ui = new InteractiveUI(analyzer, registry, workingStateIndices(prunerOptions.workingState));
       const selection = await ui.selectStrategy();
       
       if (!selection) {
-        console.log(chalk.yellow("Cancelled"));
+        say(chalk.yellow("Cancelled"));
         process.exit(0);
       }
       
+      const { indicesToKeep, strategy, ...choices } = selection;
+      recordedOptions = { ...pruneFlags, ...choices };
+
       const pruner = new SmartPruner(lines);
-      result = pruner.pruneWithIndices(selection.indicesToKeep, selection.strategy);
+      result = pruner.pruneWithIndices(indicesToKeep, strategy, {
+        ...prunerOptions,
+        trimToolResults: selection.trimToolResults ?? prunerOptions.trimToolResults,
+        summarizeDropped: selection.summarize ?? prunerOptions.summarizeDropped,
+        staleReads: selection.dedupeReads ? analyzer.findStaleReads() : prunerOptions.staleReads,
+        stripThinkingBefore: selection.stripThinking ? stripBefore(true) : prunerOptions.stripThinkingBefore,
+        stripImagesBefore: selection.stripImages ? stripBefore(true) : prunerOptions.stripImagesBefore
+      });
+      printAdjustments(result, analyzer.getTokenAccountant());
       
       if (!opts.dryRun) {
         const proceed = await ui.confirmPrune(selection.indicesToKeep, selection.strategy);
         if (!proceed) {
-          console.log(chalk.yellow("Cancelled"));
+          say(chalk.yellow("Cancelled"));
           process.exit(0);
         }
       }
     }
   }
 
+  const accountant = new TokenAccountant(lines);
+  const beforeTokens = accountant.contextTokens();
+  const afterTokens = accountant.projectLines(result.outLines);
+  const report = (issues: TranscriptIssue[], backup?: BackupInfo) => emitJson(buildPruneReport({ id: sessionId, file }, lines, result, {
+    strategyName: strategyName ?? (opts.keep && !opts.select ? "keep" : undefined),
+    tokens: { before: beforeTokens, after: afterTokens, contextWindow: accountant.contextWindow },
+    issues,
+    dryRun: Boolean(opts.dryRun),
+    backup
+  }));
+
+  // Never write a transcript the prune made structurally worse
+  const introduced = introducedErrors(verifyTranscript(lines), verifyTranscript(result.outLines));
+  if (introduced.length > 0) {
+    console.error(chalk.red(`\n❌ The pruned transcript would have ${introduced.length} new problem(s):`));
+    printIssues(introduced);
+    if (!opts.dryRun) {
+      if (opts.json) report(introduced);
+      console.error(chalk.red("Nothing was written"));
+      process.exit(1);
+    }
+  }
+
   if (opts.dryRun) {
-    console.log(chalk.cyan("\nDry-run mode - no files modified"));
+    if (opts.json) report(introduced);
+    say(chalk.cyan("\nDry-run mode - no files modified"));
     return;
   }
 
   // Apply pruning
-  const backupDir = join(homedir(), ".claude", "projects", cwdProject, "prune-backup");
-  await fs.ensureDir(backupDir);
-  const backup = join(backupDir, `${sessionId}.jsonl.${Date.now()}`);
   
   const writeSpinner = ora({
     text: chalk.gray('⟨⟨ OPTIMIZING ⟩⟩'),
+    isSilent: jsonOutput,
     spinner: {
       interval: 100,
       frames: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏']
     }
   }).start();
-  
-  await fs.copyFile(file, backup);
-  await fs.writeFile(file, result.outLines.join("\n") + "\n");
-  
-  const percentFreed = Math.round(((lines.length - result.outLines.length) / lines.length) * 100);
-  const beforeTokens = Math.floor(lines.join('').length / 4);
-  const afterTokens = Math.floor(result.outLines.join('').length / 4);
+
+  const output = result.outLines.join("\n") + "\n";
+  const backup = await createBackup(file, sessionId, {
+    strategy: result.strategy,
+    options: recordedOptions,
+    dropped: describeDropped(lines, result.droppedIndices),
+    tokens: { before: beforeTokens, after: afterTokens },
+    resultHash: hashContent(output)
+  }, content);
+  try {
+    await writeWithBackup(file, sessionId, output, stamp, backup);
+  } catch (error) {
+    failSpinner(writeSpinner, (error as Error).message);
+    process.exit(1);
+  }
+  const percentFreed = beforeTokens > 0 ? Math.round(((beforeTokens - afterTokens) / beforeTokens) * 100) : 0;
   
   writeSpinner.succeed(chalk.gray('⟨⟨ ') + chalk.green('OPTIMIZATION COMPLETE') + chalk.gray(' ⟩⟩'));
   
-  console.log('');
-  console.log(chalk.gray('╔═══════════════════════════════════════╗'));
-  console.log(chalk.gray('║') + chalk.white('     Before: ') + chalk.white(`${Math.round(beforeTokens/1000)}k tokens`) + '         '.padEnd(26 - `${Math.round(beforeTokens/1000)}k tokens`.length) + chalk.gray('║'));
-  console.log(chalk.gray('║') + chalk.white('     After:  ') + chalk.green(`${Math.round(afterTokens/1000)}k tokens`) + '         '.padEnd(26 - `${Math.round(afterTokens/1000)}k tokens`.length) + chalk.gray('║'));
-  console.log(chalk.gray('║') + chalk.white('     Freed:  ') + chalk.green.bold(`${percentFreed}% context`) + '         '.padEnd(26 - `${percentFreed}% context`.length) + chalk.gray('║'));
-  console.log(chalk.gray('╚═══════════════════════════════════════╝'));
-  console.log(chalk.dim(`\nBackup: ${basename(backup)}`));
+  const boxRow = (label: string, value: string, color: (s: string) => string) =>
+    chalk.gray('║') + chalk.white(`     ${label.padEnd(8)}`) + color(value) + ' '.repeat(Math.max(0, 26 - value.length)) + chalk.gray('║');
+  
+  say('');
+  say(chalk.gray('╔═══════════════════════════════════════╗'));
+  say(boxRow('Before:', `${formatTokens(beforeTokens)} tokens (${accountant.windowPercent(beforeTokens)}%)`, chalk.white));
+  say(boxRow('After:', `${formatTokens(afterTokens)} tokens (${accountant.windowPercent(afterTokens)}%)`, chalk.green));
+  say(boxRow('Freed:', `${percentFreed}% context`, chalk.green.bold));
+  say(chalk.gray('╚═══════════════════════════════════════╝'));
+  say(chalk.dim(`Percentages are of the ${formatTokens(accountant.contextWindow)} context window${accountant.model ? ` (${accountant.model})` : ''}`));
+  say(chalk.dim(`\nBackup: ${backup.name}`));
+  if (opts.json) report([], backup);
+}
+
+function printAdjustments(result: PruneResult, accountant: TokenAccountant) {
+  if (result.pairAdjustments.length > 0) {
+    say(chalk.yellow(`\nAdjusted ${result.pairAdjustments.length} message(s) to keep tool calls paired:`));
+    for (const adj of result.pairAdjustments) {
+      const sign = adj.action === 'added' ? chalk.green('+') : chalk.red('-');
+      say(`  ${sign} line ${adj.index + 1} ${chalk.dim(`${adj.reason} (${adj.toolUseId})`)}`);
+    }
+  }
+
+  if (result.trimmed.results > 0) {
+    say(chalk.cyan(
+      `Trimmed ${result.trimmed.results} tool output(s): ${result.trimmed.linesElided.toLocaleString()} lines elided, ` +
+      `~${formatTokens(accountant.charsToTokens(result.trimmed.charsSaved))} tokens saved`
+    ));
+  }
+
+  if (result.staleReads.results > 0) {
+    say(chalk.cyan(
+      `Collapsed ${result.staleReads.results} stale file read(s), ~${formatTokens(accountant.charsToTokens(result.staleReads.charsSaved))} tokens saved:`
+    ));
+    for (const [path, file] of Object.entries(result.staleReads.files)) {
+      say(`  ${chalk.white(path)} ${chalk.dim(`${file.reads} read(s), ~${formatTokens(accountant.charsToTokens(file.charsSaved))} tokens`)}`);
+    }
+  }
+
+  const { stripped } = result;
+  if (stripped.thinkingBlocks > 0) {
+    say(chalk.cyan(`Stripped ${stripped.thinkingBlocks} thinking block(s): ${formatBytes(stripped.thinkingBytes)} saved`));
+  }
+  if (stripped.thinkingOnlyLines > 0) {
+    say(chalk.cyan(`Removed ${stripped.thinkingOnlyLines} thinking-only message(s) left empty, counted as neither kept nor dropped`));
+  }
+  if (stripped.images > 0) {
+    say(chalk.cyan(`Replaced ${stripped.images} image(s) with placeholders: ${formatBytes(stripped.imageBytes)} saved`));
+  }
+
+  if (result.pinned.length > 0) {
+    say(chalk.cyan(`Kept ${result.pinned.length} pinned message(s) the selection would have dropped`));
+  }
+  for (const { kind, indices } of result.workingState) {
+    const what = kind === "todo" ? "latest todo list" : "approved plan";
+    say(chalk.cyan(`Kept the ${what} (lines ${indices.map(i => i + 1).join(", ")}) the selection would have dropped`));
+  }
+  if (result.summaries > 0) {
+    say(chalk.cyan(`Inserted ${result.summaries} summary message(s) in place of dropped spans`));
+  }
+
+  if (result.relinked > 0) {
+    say(chalk.dim(`Relinked ${result.relinked} parentUuid link(s) to surviving ancestors`));
+  }
 }
 
 // Extract restore logic for testing
 export function findLatestBackup(backupFiles: string[], sessionId: string): { name: string, timestamp: number } | null {
   const sessionBackups = backupFiles
-    .filter(f => f.startsWith(`${sessionId}.jsonl.`))
-    .map(f => ({
-      name: f,
-      timestamp: parseInt(f.split('.').pop() || '0')
-    }))
-    .filter(backup => !isNaN(backup.timestamp)) // Filter out invalid timestamps
+    .flatMap(f => {
+      const parsed = parseBackupName(f, sessionId); // Skips manifests and invalid timestamps
+      return parsed ? [{ name: f, timestamp: parsed.timestamp }] : [];
+    })
     .sort((a, b) => b.timestamp - a.timestamp);
 
   return sessionBackups.length > 0 ? sessionBackups[0] : null;
 }
 
-// ---------- Restore ----------
-async function restore(sessionId: string, opts: { dryRun?: boolean }) {
-  const cwdProject = process.cwd().replace(/\//g, '-').replace(/ /g, '-');
-  const file = join(homedir(), ".claude", "projects", cwdProject, `${sessionId}.jsonl`);
-  const backupDir = join(homedir(), ".claude", "projects", cwdProject, "prune-backup");
+/** Exit if the session looks open in Claude Code, unless --force was given. */
+async function guardActiveSession(file: string, sessionId: string, force?: boolean) {
+  const reasons = await detectActiveSession(file, sessionId);
+  if (reasons.length === 0) return;
+
+  if (force) {
+    say(chalk.yellow(`⚠ Session may be open (${reasons.join("; ")}); writing anyway because of --force`));
+    return;
+  }
+  console.error(chalk.red(`❌ Session ${sessionId} looks open in Claude Code: ${reasons.join("; ")}`));
+  console.error(chalk.dim("Exit the session (or let it go idle) and try again, or pass --force to write anyway"));
+  process.exit(1);
+}
+
+/**
+ * Write the new session over the old one. If the write is refused because the
+ * file changed, the backup taken for it is deleted again, so no backup records
+ * a change that never happened.
+ */
+async function writeWithBackup(
+  file: string,
+  sessionId: string,
+  content: string | Buffer,
+  stamp: FileStamp | undefined,
+  backup: BackupInfo | null
+) {
+  try {
+    await writeFileAtomic(file, content, stamp);
+  } catch (error) {
+    if (backup) await deleteBackups(file, sessionId, [backup]);
+    throw error;
+  }
+}
 
-  if (!(await fs.pathExists(backupDir))) {
-    console.error(chalk.red(`❌ No backup directory found at ${backupDir}`));
+// ---------- Strategy Flags ----------
+interface StrategyFlags {
+  keep?: number;
+  strategy?: string;
+  first?: number;
+  last?: number;
+  ratio?: number;
+  select?: string;
+}
+
+/** The strategy the flags ask for; --first/--last imply bookends and a lone --ratio implies recent. */
+function strategyNameFor(opts: StrategyFlags): string | undefined {
+  for (const [flag, value] of [["--first", opts.first], ["--last", opts.last]] as const) {
+    if (value !== undefined && !(value >= 0)) {
+      console.error(chalk.red(`❌ ${flag} expects a non-negative turn count`));
+      process.exit(1);
+    }
+  }
+  if (opts.ratio !== undefined && !(opts.ratio > 0 && opts.ratio <= 1)) {
+    console.error(chalk.red("❌ --ratio expects a share between 0 and 1, e.g. 0.3"));
     process.exit(1);
   }
 
-  const spinner = ora(`Finding latest backup for ${sessionId}`).start();
+  const strategyName = opts.strategy
+    ?? (opts.first !== undefined || opts.last !== undefined ? "bookends" : undefined)
+    ?? (opts.ratio !== undefined ? "recent" : undefined);
+
+  if (opts.select && strategyName) {
+    console.error(chalk.red("❌ Use either --select or a strategy (--strategy, --first, --last, --ratio), not both"));
+    process.exit(1);
+  }
+  return strategyName;
+}
+
+/** The built-in strategies plus any from the project's config file. */
+async function loadRegistry(project?: string): Promise<StrategyRegistry> {
+  const registry = createRegistry();
+  try {
+    await loadCustomStrategies(registry, project ?? process.cwd());
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+  return registry;
+}
+
+/** Messages kept by a selection expression, a named strategy, or the auto default: the most recent 60% of messages. */
+function chooseMessages(
+  analyzer: SessionAnalyzer,
+  registry: StrategyRegistry,
+  opts: StrategyFlags,
+  strategyName: string | undefined
+): { indicesToKeep: number[]; label: string } {
+  const params: PruneOptions = strategyName
+    ? { keep: opts.keep, first: opts.first, last: opts.last, ratio: opts.ratio }
+    : { ratio: AUTO_RECENT_RATIO };
+  try {
+    if (opts.select) {
+      return { indicesToKeep: evaluateSelection(analyzer, opts.select), label: `Selection (${opts.select})` };
+    }
+    const strategy = registry.require(strategyName ?? "recent");
+    return {
+      indicesToKeep: strategy.getIndicesToKeep(analyzer, params),
+      label: strategyName ? strategy.label?.(analyzer, params) ?? strategy.description : "Auto: recent work"
+    };
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+// ---------- Restore ----------
+async function restore(
+  sessionIdArg: string | undefined,
+  opts: SessionLocator & { at?: string; dryRun?: boolean; force?: boolean }
+) {
+  jsonOutput = Boolean(opts.json);
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+
+  const spinner = ora({
+    text: `Finding ${opts.at ? `backup ${opts.at}` : "latest backup"} for ${sessionId}`,
+    isSilent: jsonOutput
+  }).start();
   
   try {
-    const backupFiles = await fs.readdir(backupDir);
-    const latestBackup = findLatestBackup(backupFiles, sessionId);
+    const backups = await listBackups(file, sessionId);
+    if (backups.length === 0) {
+      failSpinner(spinner, `No backups found for session ${sessionId} in ${backupDirFor(file)}`);
+      process.exit(1);
+    }
 
-    if (!latestBackup) {
-      spinner.fail(chalk.red(`No backups found for session ${sessionId}`));
+    const backup = resolveBackup(backups, opts.at ?? "1");
+    if (!backup) {
+      failSpinner(spinner, `No backup matches "${opts.at}". Run \`claude-prune backups list ${sessionId}\` to see them`);
       process.exit(1);
     }
+    const report = (written: boolean, undoBackup?: BackupInfo | null) =>
+      emitJson(buildRestoreReport({ id: sessionId, file }, backup, { dryRun: Boolean(opts.dryRun), written, undoBackup }));
 
-    const backupPath = join(backupDir, latestBackup.name);
-    const backupDate = new Date(latestBackup.timestamp).toLocaleString();
-    
-    spinner.succeed(`Found latest backup from ${backupDate}`);
+    const backupDate = new Date(backup.timestamp).toLocaleString();
+    spinner.succeed(`Found backup from ${backupDate}`);
+    await printManifest(backup);
 
     if (opts.dryRun) {
-      console.log(chalk.cyan(`Would restore from: ${backupPath}`));
-      console.log(chalk.cyan(`Would restore to: ${file}`));
+      say(chalk.cyan(`Would restore from: ${backup.path}`));
+      say(chalk.cyan(`Would restore to: ${file}`));
+      if (opts.json) report(false);
       return;
     }
 
+    await guardActiveSession(file, sessionId, opts.force);
+
     // Confirm restoration
-    if (process.stdin.isTTY) {
+    if (process.stdin.isTTY && !opts.json) {
       const ok = await confirm({ 
         message: chalk.yellow(`Restore session from backup (${backupDate})?`), 
         initialValue: false 
@@ -332,13 +751,441 @@ async function restore(sessionId: string, opts: { dryRun?: boolean }) {
       if (!ok) process.exit(0);
     }
 
-    await fs.copyFile(backupPath, file);
+    // Back up the current file first so the restore can itself be undone
+    const stamp = (await fs.pathExists(file)) ? await stampFile(file) : undefined;
+    const restored = await readBackup(backup);
+    const undo = (await fs.pathExists(file))
+      ? await createBackup(file, sessionId, {
+        strategy: `Restore of ${backup.name}`,
+        options: { at: backup.name },
+        resultHash: hashContent(restored)
+      })
+      : null;
+    await writeWithBackup(file, sessionId, restored, stamp, undo);
     
-    console.log(chalk.bold.green("✅ Restored:"), chalk.white(`${file}`));
-    console.log(chalk.dim(`From backup: ${backupPath}`));
+    say(chalk.bold.green("✅ Restored:"), chalk.white(`${file}`));
+    say(chalk.dim(`From backup: ${backup.path}`));
+    if (undo) say(chalk.dim(`Previous version saved as ${undo.name}`));
+    if (opts.json) report(true, undo);
 
   } catch (error) {
-    spinner.fail(chalk.red(`Error: ${error}`));
+    failSpinner(spinner, `Error: ${error}`);
+    process.exit(1);
+  }
+}
+
+// ---------- Backups ----------
+async function listBackupsCommand(sessionIdArg: string | undefined, opts: SessionLocator) {
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+  const backups = await listBackups(file, sessionId);
+
+  if (backups.length === 0) {
+    console.log(chalk.yellow(`No backups for session ${sessionId}`));
+    return;
+  }
+
+  backups.forEach((b, i) => {
+    const taken = new Date(b.timestamp);
+    console.log(
+      chalk.cyan(String(i + 1).padStart(3)) + "  " +
+      chalk.white(taken.toLocaleString().padEnd(24)) +
+      chalk.dim(formatRelativeTime(taken).padEnd(10)) +
+      chalk.white(formatBytes(b.size).padStart(9)) + "  " +
+      chalk.dim((b.manifest?.dropped ? `−${b.manifest.dropped.indices.length}` : "").padStart(6)) + "  " +
+      (b.manifest ? chalk.white(b.manifest.strategy) : chalk.dim("(strategy not recorded)")) +
+      (b.format === "plain" ? chalk.yellow(" [uncompressed]") : "")
+    );
+  });
+  console.log(chalk.dim(`\n${backups.length} backup(s) in ${backupDirFor(file)}`));
+  if (backups.some(b => b.format === "plain")) {
+    console.log(chalk.dim(`Run \`claude-prune backups migrate ${sessionId}\` to compress uncompressed backups`));
+  }
+}
+
+async function showBackupCommand(sessionIdArg: string | undefined, opts: SessionLocator & { at?: string }) {
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+  const backup = resolveBackup(await listBackups(file, sessionId), opts.at ?? "1");
+  if (!backup) {
+    console.error(chalk.red(`❌ No backup matches "${opts.at ?? "1"}"`));
+    process.exit(1);
+  }
+
+  console.log(chalk.bold(backup.name), chalk.dim(`${new Date(backup.timestamp).toLocaleString()}, ${formatBytes(backup.size)}`));
+  await printManifest(backup);
+
+  const uuids = backup.manifest?.dropped?.uuids ?? [];
+  if (uuids.length > 0) {
+    console.log(chalk.dim("\nDropped message uuids:"));
+    uuids.forEach(uuid => console.log(chalk.dim(`  ${uuid}`)));
+  }
+}
+
+/** What a backup's manifest says about the change it guards, and whether the file still matches it. */
+async function printManifest(backup: BackupInfo) {
+  const { manifest } = backup;
+  if (!manifest) {
+    say(chalk.dim("  No manifest recorded for this backup"));
+    return;
+  }
+
+  say(`  ${chalk.gray("Strategy:")} ${manifest.strategy}`);
+  const flags = Object.entries(manifest.options ?? {}).map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+  if (flags.length > 0) say(`  ${chalk.gray("Options:")}  ${flags.join(" ")}`);
+  if (manifest.dropped) say(`  ${chalk.gray("Dropped:")}  ${manifest.dropped.indices.length} message(s)`);
+  if (manifest.tokens) {
+    say(`  ${chalk.gray("Tokens:")}   ~${formatTokens(manifest.tokens.before)} → ~${formatTokens(manifest.tokens.after)}`);
+  }
+  say(`  ${chalk.gray("Written by")} claude-prune ${manifest.version}`);
+
+  const intact = await verifyBackup(backup);
+  if (intact === false) {
+    say(chalk.yellow("  ⚠ The backup no longer matches the hash in its manifest; it was modified after it was taken"));
+  }
+}
+
+async function diffBackupsCommand(sessionIdArg: string | undefined, opts: SessionLocator & { from?: string; to?: string }) {
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+  const backups = await listBackups(file, sessionId);
+
+  const load = async (ref: string): Promise<{ label: string; lines: string[] }> => {
+    const split = (content: string) => content.split(/\r?\n/).filter(Boolean);
+    if (ref === "current") return { label: "current session", lines: split(await fs.readFile(file, "utf8")) };
+    const backup = resolveBackup(backups, ref);
+    if (!backup) {
+      console.error(chalk.red(`❌ No backup matches "${ref}"`));
+      process.exit(1);
+    }
+    return { label: `backup ${backup.name}`, lines: split((await readBackup(backup)).toString("utf8")) };
+  };
+
+  const from = await load(opts.from ?? "1");
+  const to = await load(opts.to ?? "current");
+  const diff = diffTranscripts(from.lines, to.lines);
+
+  console.log(chalk.bold(`${from.label} → ${to.label}`));
+  for (const e of diff.removed) console.log(chalk.red(`- ${String(e.line).padStart(5)} ${e.type.padEnd(9)} ${e.preview}`));
+  for (const e of diff.added) console.log(chalk.green(`+ ${String(e.line).padStart(5)} ${e.type.padEnd(9)} ${e.preview}`));
+  for (const e of diff.changed) console.log(chalk.yellow(`~ ${String(e.line).padStart(5)} ${e.type.padEnd(9)} ${e.preview}`));
+  console.log(chalk.dim(
+    `\n${diff.removed.length} removed, ${diff.added.length} added, ${diff.changed.length} changed, ${diff.unchanged} unchanged`
+  ));
+}
+
+async function pruneBackupsCommand(
+  sessionIdArg: string | undefined,
+  opts: SessionLocator & { keepLast?: number; olderThan?: number; dryRun?: boolean }
+) {
+  if (opts.keepLast === undefined && opts.olderThan === undefined) {
+    console.error(chalk.red("❌ Pass --keep-last <n>, --older-than <age>, or both"));
     process.exit(1);
   }
-}
\ No newline at end of file
+  if ((opts.keepLast !== undefined && !(opts.keepLast >= 0)) || (opts.olderThan !== undefined && isNaN(opts.olderThan))) {
+    console.error(chalk.red("❌ --keep-last expects a count and --older-than a duration like 30d"));
+    process.exit(1);
+  }
+
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+  const backups = await listBackups(file, sessionId);
+  const expired = selectExpiredBackups(backups, { keepLast: opts.keepLast, olderThan: opts.olderThan });
+
+  if (expired.length === 0) {
+    console.log(chalk.green(`Nothing to delete (${backups.length} backup(s) kept)`));
+    return;
+  }
+
+  for (const b of expired) {
+    console.log(chalk.dim(`  ${b.name}  ${new Date(b.timestamp).toLocaleString()}  ${formatBytes(b.size)}`));
+  }
+
+  if (opts.dryRun) {
+    console.log(chalk.cyan(`\nWould delete ${expired.length} of ${backups.length} backup(s)`));
+    return;
+  }
+
+  if (process.stdin.isTTY) {
+    const ok = await confirm({ message: chalk.yellow(`Delete ${expired.length} backup(s)?`), initialValue: false });
+    if (!ok) process.exit(0);
+  }
+
+  const freed = await deleteBackups(file, sessionId, expired);
+  console.log(chalk.green(`Deleted ${expired.length} backup(s), freed ${formatBytes(freed)}`));
+}
+
+async function migrateBackupsCommand(sessionIdArg: string | undefined, opts: SessionLocator & { all?: boolean }) {
+  const sessions = opts.all
+    ? (await listSessions({ project: opts.project ?? process.cwd() })).map(s => ({ sessionId: s.id, file: s.file }))
+    : [await resolveSession(sessionIdArg, opts)];
+
+  let total = 0;
+  for (const { sessionId, file } of sessions) {
+    const migrated = await migrateBackups(file, sessionId).catch((error: Error) => {
+      console.error(chalk.red(`❌ ${sessionId}: ${error.message}`));
+      process.exit(1);
+    });
+    if (migrated.length > 0) console.log(`${chalk.white(sessionId)} ${chalk.dim(`${migrated.length} backup(s) compressed`)}`);
+    total += migrated.length;
+  }
+
+  console.log(total > 0 ? chalk.green(`Migrated ${total} backup(s)`) : chalk.yellow("No uncompressed backups to migrate"));
+}
+
+// ---------- Analyze ----------
+async function analyze(sessionIdArg: string | undefined, opts: SessionLocator) {
+  jsonOutput = Boolean(opts.json);
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+
+  if (!(await fs.pathExists(file))) {
+    console.error(chalk.red(`❌ No transcript at ${file}`));
+    process.exit(1);
+  }
+
+  const lines = (await fs.readFile(file, "utf8")).split(/\r?\n/).filter(Boolean);
+  const analyzer = new SessionAnalyzer(lines, await loadPinnedUuids(file, sessionId));
+  const report = buildAnalysisReport({ id: sessionId, file }, analyzer);
+  if (opts.json) {
+    emitJson(report);
+    return;
+  }
+
+  const { session, tokens } = report;
+  say(chalk.bold(sessionId), chalk.dim(file));
+  say(
+    `${session.turns} turns • ${session.messages} messages • ${formatTokens(tokens.context)} tokens ` +
+    chalk.gray(`(${tokens.windowPercent}% of ${formatTokens(tokens.contextWindow)} window${tokens.source === "estimate" ? ", estimated" : ""})`)
+  );
+
+  say(chalk.gray("\nPhases:"));
+  for (const phase of report.phases) {
+    const { errors, fileEdits } = phase.characteristics;
+    say(
+      `  ${phase.number}. ${chalk.white(phase.name.padEnd(8))} lines ${phase.startIndex + 1}-${phase.endIndex + 1}  ` +
+      chalk.dim(`${phase.messageCount} messages, ${errors} errors, ${fileEdits} edits`)
+    );
+  }
+  say(chalk.dim(`\n${report.keyMessages.length} key message(s). Use --json for per-message details`));
+}
+
+// ---------- Export ----------
+async function exportCommand(
+  sessionIdArg: string | undefined,
+  opts: SessionLocator & StrategyFlags & { output?: string; format?: string; preview?: boolean; keepState?: boolean }
+) {
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+
+  if (!(await fs.pathExists(file))) {
+    console.error(chalk.red(`❌ No transcript at ${file}`));
+    process.exit(1);
+  }
+
+  let format: ExportFormat = opts.output ? formatForPath(opts.output) : "markdown";
+  if (opts.format) {
+    if (!["markdown", "md", "html"].includes(opts.format)) {
+      console.error(chalk.red(`❌ Unknown format "${opts.format}"; use markdown or html`));
+      process.exit(1);
+    }
+    format = opts.format === "html" ? "html" : "markdown";
+  }
+
+  const lines = (await fs.readFile(file, "utf8")).split(/\r?\n/).filter(Boolean);
+  const pinnedUuids = await loadPinnedUuids(file, sessionId);
+  const analyzer = new SessionAnalyzer(lines, pinnedUuids);
+
+  // Any strategy flag turns on the preview
+  let preview: ExportPreview | undefined;
+  const strategyName = strategyNameFor(opts);
+  if (opts.preview || opts.select || strategyName) {
+    const registry = await loadRegistry(opts.project);
+    const { indicesToKeep, label } = chooseMessages(analyzer, registry, opts, strategyName);
+    const result = new SmartPruner(lines).pruneWithIndices(indicesToKeep, label, {
+      pinnedUuids,
+      workingState: opts.keepState === false ? undefined : analyzer.findWorkingState()
+    });
+    const accountant = analyzer.getTokenAccountant();
+    preview = {
+      label,
+      dropped: result.droppedIndices,
+      tokens: { before: accountant.contextTokens(), after: accountant.projectLines(result.outLines) }
+    };
+  }
+
+  const output = exportSession(analyzer, format, { title: `Session ${sessionId}`, preview });
+  if (!opts.output) {
+    process.stdout.write(output);
+    return;
+  }
+  await fs.writeFile(opts.output, output);
+  console.log(chalk.green(`Exported ${sessionId} to ${opts.output}`), chalk.dim(`(${format}, ${formatBytes(Buffer.byteLength(output))})`));
+}
+
+// ---------- Pins ----------
+/** The session's sidecar pins; exits if the pin file is unreadable. */
+async function loadPinnedUuids(file: string, sessionId: string): Promise<string[]> {
+  try {
+    return (await loadPins(file, sessionId)).map(pin => pin.uuid);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+}
+
+async function pinCommand(
+  sessionIdArg: string | undefined,
+  messages: string[],
+  opts: SessionLocator & { remove?: boolean }
+) {
+  // With --latest there is no session argument, so the first one is a message
+  if (opts.latest && sessionIdArg !== undefined) {
+    messages = [sessionIdArg, ...messages];
+    sessionIdArg = undefined;
+  }
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+
+  if (!(await fs.pathExists(file))) {
+    console.error(chalk.red(`❌ No transcript at ${file}`));
+    process.exit(1);
+  }
+  const lines = (await fs.readFile(file, "utf8")).split(/\r?\n/).filter(Boolean);
+
+  if (messages.length === 0) {
+    await listPins(file, sessionId, lines);
+    return;
+  }
+
+  let uuids: string[];
+  try {
+    // Unpinning accepts any uuid, so pins of messages no longer in the file can be removed
+    uuids = messages.map(target => opts.remove && !/^\d+$/.test(target) ? target : resolvePinTarget(lines, target));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  if (opts.remove) {
+    const removed = await removePins(file, sessionId, uuids);
+    console.log(chalk.green(`Unpinned ${removed.length} message(s)`), chalk.dim(`(${uuids.length - removed.length} were not pinned)`));
+  } else {
+    const added = await addPins(file, sessionId, uuids);
+    console.log(chalk.green(`Pinned ${added.length} message(s)`), chalk.dim(`(${uuids.length - added.length} already pinned)`));
+  }
+}
+
+async function listPins(file: string, sessionId: string, lines: string[]) {
+  const pins = await loadPins(file, sessionId).catch((error: Error) => {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  });
+  const analyzer = new SessionAnalyzer(lines, pins.map(pin => pin.uuid));
+  const pinnedAt = new Map(pins.map(pin => [pin.uuid, pin.pinnedAt]));
+  const pinned = analyzer.getMessageDetails().filter(msg => msg.isPinned);
+
+  if (pinned.length === 0 && pins.length === 0) {
+    console.log(chalk.yellow(`No pinned messages in ${sessionId}`));
+    console.log(chalk.dim(`Pin one with \`claude-prune pin ${sessionId} <line|uuid>\`, or write #pin in a message`));
+    return;
+  }
+
+  for (const msg of pinned) {
+    const source = msg.uuid && pinnedAt.has(msg.uuid)
+      ? `pinned ${new Date(pinnedAt.get(msg.uuid)!).toLocaleString()}`
+      : "#pin in the message";
+    const snippet = (msg.content ?? "").replace(/\s+/g, " ").trim();
+    console.log(
+      `📌 ${chalk.dim(`line ${String(msg.index + 1).padEnd(5)}`)} ${msg.type.padEnd(9)} ` +
+      `${snippet.length > 60 ? snippet.slice(0, 59) + "…" : snippet} ${chalk.dim(`(${source})`)}`
+    );
+  }
+
+  const present = new Set(pinned.map(msg => msg.uuid));
+  const missing = pins.filter(pin => !present.has(pin.uuid));
+  if (missing.length > 0) {
+    console.log(chalk.dim(`\n${missing.length} pin(s) name messages no longer in the transcript; remove them with --remove <uuid>:`));
+    missing.forEach(pin => console.log(chalk.dim(`  ${pin.uuid}`)));
+  }
+}
+
+// ---------- Verify ----------
+async function verify(sessionIdArg: string | undefined, opts: SessionLocator & { fix?: boolean; force?: boolean }) {
+  const { sessionId, file } = await resolveSession(sessionIdArg, opts);
+
+  if (!(await fs.pathExists(file))) {
+    console.error(chalk.red(`❌ No transcript at ${file}`));
+    process.exit(1);
+  }
+
+  const stamp = await stampFile(file);
+  const content = await fs.readFile(file);
+  const lines = content.toString("utf8").split(/\r?\n/);
+  const issues = verifyTranscript(lines);
+
+  if (issues.length === 0) {
+    console.log(chalk.green(`✅ ${sessionId}: no problems found in ${lines.filter(Boolean).length} lines`));
+    return;
+  }
+
+  printIssues(issues);
+  const errors = issues.filter(i => i.severity === "error").length;
+  const fixable = issues.filter(i => i.fixable).length;
+  console.log(chalk.dim(
+    `\n${errors} error(s), ${issues.length - errors} warning(s)` +
+    (fixable > 0 && !opts.fix ? `; ${fixable} fixable with --fix` : "")
+  ));
+
+  if (opts.fix && fixable > 0) {
+    await guardActiveSession(file, sessionId, opts.force);
+    const repaired = fixTranscript(lines);
+    const output = repaired.lines.join("\n");
+    const backup = await createBackup(file, sessionId, {
+      strategy: `Verify --fix (${repaired.fixed.length} line(s) removed)`,
+      dropped: describeDropped(lines, repaired.fixed.map(i => i.line - 1)),
+      resultHash: hashContent(output)
+    }, content);
+    try {
+      await writeWithBackup(file, sessionId, output, stamp, backup);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Fixed ${repaired.fixed.length} problem(s)`), chalk.dim(`(backup: ${backup.name})`));
+    if (errors > repaired.fixed.filter(i => i.severity === "error").length) process.exit(1);
+  } else if (errors > 0) {
+    process.exit(1);
+  }
+}
+
+function printIssues(issues: TranscriptIssue[]) {
+  for (const issue of issues) {
+    const mark = issue.severity === "error" ? chalk.red("✖") : chalk.yellow("⚠");
+    say(`${mark} ${chalk.dim(`line ${String(issue.line).padEnd(5)}`)} ${chalk.white(issue.code.padEnd(20))} ${issue.message}`);
+  }
+}
+
+// ---------- List ----------
+async function list(opts: { project?: string; search?: string; limit?: number }) {
+  // One past the limit tells whether there are more, without reading them all
+  const limit = opts.limit ?? 20;
+  const sessions = await listSessions({ project: opts.project, search: opts.search, limit: limit + 1 });
+
+  if (sessions.length === 0) {
+    console.log(chalk.yellow("No sessions found"));
+    return;
+  }
+
+  const shown = sessions.slice(0, limit);
+  shown.forEach((s: SessionSummary) => {
+    console.log(
+      chalk.cyan(s.id) + chalk.gray('  ') +
+      chalk.white(s.projectPath || s.projectDir) + chalk.gray('  ') +
+      chalk.dim(formatRelativeTime(s.modified))
+    );
+    console.log(
+      chalk.gray('  ') +
+      chalk.white(`${s.messageCount} msgs`) + chalk.gray(' • ') +
+      chalk.white(`~${formatTokens(s.estimatedTokens)} tokens`) + chalk.gray(' • ') +
+      chalk.dim(s.firstPrompt ? `"${s.firstPrompt.slice(0, 70)}"` : '(no prompt)')
+    );
+  });
+
+  if (sessions.length > shown.length) {
+    console.log(chalk.dim(`\n… more sessions not shown (use --limit or --search)`));
+  }
+}
@@ -1,23 +1,56 @@
-import { select, text, confirm } from '@clack/prompts';
+import { select, multiselect, text, confirm } from '@clack/prompts';
 import chalk from 'chalk';
-import { SessionAnalyzer, WorkPhase } from './analyzer';
+import { SessionAnalyzer, shortPhaseName, type WorkPhase } from './analyzer';
+import { formatRelativeTime, type SessionSummary } from './sessions';
+import { parseTokenCount, planTokenBudget } from './budget';
+import { getToolResultText } from './content';
+import { DEFAULT_STRIP_TURNS, DEFAULT_TRIM_LINES } from './transforms';
+import { createRegistry, type StrategyRegistry } from './strategies';
+import { evaluateSelection } from './selection';
+import { browseMessages } from './browser';
+import { formatTokens } from './tokens';
 
 export interface PruneSelection {
   indicesToKeep: number[];
   strategy: string;
+  trimToolResults?: number;
+  dedupeReads?: boolean;
+  stripThinking?: boolean; // Applied to lines before the last DEFAULT_STRIP_TURNS turns
+  stripImages?: boolean;
+  summarize?: boolean;     // Replace dropped spans with summary messages
 }
 
 export class InteractiveUI {
   private analyzer: SessionAnalyzer;
   private analysis: ReturnType<SessionAnalyzer['getAnalysis']>;
-
-  constructor(analyzer: SessionAnalyzer) {
+  private stripThinking = false;
+  private stripImages = false;
+  private registry: StrategyRegistry;
+  private alwaysKeep: number[];
+  private failedStrategies = new Set<string>();
+
+  /** `alwaysKeep` holds lines the pruner adds to any selection, such as the latest todo list. */
+  constructor(analyzer: SessionAnalyzer, registry: StrategyRegistry = createRegistry(), alwaysKeep: number[] = []) {
     this.analyzer = analyzer;
+    this.registry = registry;
+    this.alwaysKeep = alwaysKeep;
     this.analysis = analyzer.getAnalysis();
   }
 
   public async selectStrategy(): Promise<PruneSelection | null> {
+    const selection = await this.chooseStrategy();
+    if (!selection) return null;
+
+    return {
+      ...selection,
+      stripThinking: this.stripThinking || undefined,
+      stripImages: this.stripImages || undefined
+    };
+  }
+
+  private async chooseStrategy(): Promise<PruneSelection | null> {
     this.displayHeader();
+    this.displayPhases();
 
     const strategies = this.buildStrategies();
     
@@ -40,19 +73,47 @@ export class InteractiveUI {
       return await this.customRangeSelection();
     }
 
+    if (selected.action === 'phases') {
+      return await this.phaseSelection();
+    }
+
+    if (selected.action === 'browse') {
+      return await this.browseSelection();
+    }
+
+    if (selected.action === 'budget') {
+      return await this.tokenBudgetSelection();
+    }
+
+    if (selected.action === 'trim') {
+      return await this.trimSelection();
+    }
+
     if (selected.action === 'details') {
       await this.showMessageDetails();
-      return await this.selectStrategy(); // Recurse to show menu again
+      return await this.chooseStrategy(); // Recurse to show menu again
+    }
+
+    if (selected.action === 'toggle-thinking') {
+      this.stripThinking = !this.stripThinking;
+      return await this.chooseStrategy();
+    }
+
+    if (selected.action === 'toggle-images') {
+      this.stripImages = !this.stripImages;
+      return await this.chooseStrategy();
     }
 
     return {
       indicesToKeep: selected.indices!,
-      strategy: selected.label
+      strategy: selected.label,
+      dedupeReads: selected.dedupeReads
     };
   }
 
   private displayHeader(): void {
     const { totalMessages, totalTokens } = this.analysis;
+    const totalTurns = this.analyzer.getPromptIndices().length;
     
     console.log('');
     console.log(chalk.cyan('╔═╗╦  ╔═╗╦ ╦╔╦╗╔═╗') + chalk.gray(' ') + chalk.magenta('╔═╗╦═╗╦ ╦╔╗╔╔═╗'));
@@ -60,19 +121,29 @@ export class InteractiveUI {
     console.log(chalk.cyan('╚═╝╩═╝╩ ╩╚═╝═╩╝╚═╝') + chalk.gray(' ') + chalk.magenta('╩  ╩╚═╚═╝╝╚╝╚═╝'));
     console.log(chalk.gray('    ⟨⟨ ') + chalk.white('CONTEXT OPTIMIZER v2.0') + chalk.gray(' ⟩⟩'));
     console.log('');
-    console.log(chalk.gray('    ') + chalk.white(`${totalMessages} messages`) + chalk.gray(' • ') + chalk.white(`${this.formatNumber(totalTokens)} tokens`));
+    const accountant = this.analyzer.getTokenAccountant();
+    const windowPercent = accountant.windowPercent(totalTokens);
+    console.log(chalk.gray('    ') + chalk.white(`${totalTurns} turns`) + chalk.gray(' • ') +
+      chalk.white(`${totalMessages} messages`) + chalk.gray(' • ') +
+      chalk.white(`${this.formatNumber(totalTokens)} tokens`) +
+      chalk.gray(` (${windowPercent}% of ${this.formatNumber(accountant.contextWindow)} window)`));
+    const pinned = this.analyzer.getPinnedIndices().length;
+    if (pinned > 0) {
+      console.log(chalk.gray('    ') + chalk.yellow(`📌 ${pinned} pinned message${pinned === 1 ? '' : 's'}`) + chalk.gray(' kept by every option'));
+    }
     console.log('');
   }
 
   private displayPhases(): void {
     if (this.analysis.workPhases.length === 0) return;
     
+    const messageIndices = this.analyzer.getMessageIndices();
     console.log(chalk.gray('Phases: ') + 
-      this.analysis.workPhases.map((phase, i) => {
+      this.analysis.workPhases.map(phase => {
         const icon = phase.characteristics.errors > 0 ? chalk.red('●') : 
                     phase.characteristics.fileEdits > 0 ? chalk.yellow('◆') : chalk.blue('■');
-        return chalk.white(`[${phase.start + 1}-${phase.end + 1}: `) + 
-               this.getShortPhaseDesc(phase.description) + 
+        return chalk.white(`[${messageIndices[phase.start] + 1}-${messageIndices[phase.end] + 1}: `) + 
+               shortPhaseName(phase.description) + 
                ' ' + icon + chalk.white(']');
       }).join(chalk.gray(' → '))
     );
@@ -80,15 +151,6 @@ export class InteractiveUI {
     console.log('');
   }
 
-  private getShortPhaseDesc(description: string): string {
-    if (description.includes('setup') || description.includes('requirements')) return 'Setup';
-    if (description.includes('Implementation') || description.includes('coding')) return 'Build';
-    if (description.includes('Debugging') || description.includes('error')) return 'Debug';
-    if (description.includes('Discussion') || description.includes('planning')) return 'Plan';
-    if (description.includes('Exploration')) return 'Explore';
-    return 'Work';
-  }
-
   private getPhaseIcon(description: string): string {
     if (description.includes('setup') || description.includes('requirements')) return '┌';
     if (description.includes('Implementation') || description.includes('coding')) return '├';
@@ -104,63 +166,115 @@ export class InteractiveUI {
     menuHint?: string;
     action?: string;
     indices?: number[];
+    dedupeReads?: boolean;
   }> {
     const strategies = [];
-    const messageIndices = this.analyzer.getMessageIndices();
-    const totalMessages = messageIndices.length;
 
-    // Strategy 1: Keep recent work only - default to last 40% of messages
-    const recentStart = Math.floor(totalMessages * 0.6);
-    const recentIndices = messageIndices.slice(recentStart);
-    const recentFreed = Math.round(((totalMessages - recentIndices.length) / totalMessages) * 100);
-    
+    // Registered strategies: recent, bookends, smart and any loaded from config
+    for (const strategy of this.registry.list()) {
+      if (strategy.interactive === false) continue;
+      let indices: number[];
+      let label: string;
+      try {
+        indices = strategy.getIndicesToKeep(this.analyzer);
+        label = strategy.label?.(this.analyzer) ?? strategy.description;
+      } catch (error) {
+        // A broken custom strategy is left out of the menu, with a warning the first time
+        if (!this.failedStrategies.has(strategy.name)) {
+          this.failedStrategies.add(strategy.name);
+          console.log(chalk.red(`✖ Strategy "${strategy.name}" failed and was left out: ${(error as Error).message}`));
+        }
+        continue;
+      }
+      const freed = this.percentFreed(indices);
+
+      strategies.push({
+        label,
+        hint: this.createProgressBar(freed),
+        menuHint: `${this.createCyberpunkBar(freed)} ${chalk.green(freed + '%')}`,
+        indices
+      });
+    }
+
+    // Token budget
     strategies.push({
-      label: `Keep last ${totalMessages - recentStart} messages`,
-      hint: this.createProgressBar(recentFreed),
-      menuLabel: `Keep last ${totalMessages - recentStart} messages only`,
-      menuHint: `${this.createCyberpunkBar(recentFreed)} ${chalk.green(recentFreed + '%')}`,
-      indices: recentIndices
+      label: 'Token budget',
+      hint: chalk.dim('fit under N tokens'),
+      menuLabel: 'Fit under a token budget',
+      menuHint: chalk.gray('keeps recent turns + highest-value messages'),
+      action: 'budget'
     });
 
-    // Strategy 2: Bookends
-    const firstCount = Math.min(10, Math.floor(totalMessages * 0.1));
-    const lastCount = Math.min(30, Math.floor(totalMessages * 0.3));
-    const bookendIndices = [
-      ...messageIndices.slice(0, firstCount),
-      ...messageIndices.slice(-lastCount)
-    ];
-    const bookendFreed = Math.round(((totalMessages - bookendIndices.length) / totalMessages) * 100);
-    
+    // Trim tool outputs, keep every message
+    const oversized = this.countOversizedResults(DEFAULT_TRIM_LINES);
     strategies.push({
-      label: `Bookends (first ${firstCount} + last ${lastCount})`,
-      hint: this.createProgressBar(bookendFreed),
-      menuLabel: `Keep first ${firstCount} + last ${lastCount} messages`,
-      menuHint: `${this.createCyberpunkBar(bookendFreed)} ${chalk.green(bookendFreed + '%')}`,
-      indices: bookendIndices
+      label: 'Trim tool outputs',
+      hint: chalk.dim('shorten long tool results'),
+      menuLabel: 'Trim oversized tool outputs (keep all messages)',
+      menuHint: chalk.gray(`${oversized} result${oversized === 1 ? '' : 's'} over ${DEFAULT_TRIM_LINES} lines`),
+      action: 'trim'
     });
 
-    // Strategy 3: Keep key messages
-    const keyMessages = this.analysis.keyMessages;
-    const keyFreed = Math.round(((totalMessages - keyMessages.length) / totalMessages) * 100);
-    
+    // Collapse superseded file reads, keep every message
+    const staleReads = this.analyzer.findStaleReads();
+    const staleTokens = staleReads.reduce((sum, r) => sum + r.tokens, 0);
     strategies.push({
-      label: `Smart selection (${keyMessages.length} important messages)`,
-      hint: this.createProgressBar(keyFreed),
-      menuLabel: `Keep ${keyMessages.length} important messages (code/errors)`,
-      menuHint: `${this.createCyberpunkBar(keyFreed)} ${chalk.green(keyFreed + '%')}`,
-      indices: keyMessages
+      label: 'Collapse stale file reads',
+      hint: chalk.dim('elide superseded Read results'),
+      menuLabel: 'Collapse stale file reads (keep all messages)',
+      menuHint: chalk.gray(`${staleReads.length} stale read${staleReads.length === 1 ? '' : 's'}, ~${this.formatNumber(staleTokens)} tokens`),
+      indices: this.analyzer.getMessageIndices(),
+      dedupeReads: true
     });
 
-    // Strategy 4: Custom range
+    // Custom range
     strategies.push({
       label: 'Custom range',
       hint: chalk.dim('specify exact ranges'),
-      menuLabel: 'Custom range selection',
-      menuHint: chalk.gray('specify ranges manually'),
+      menuLabel: 'Custom selection',
+      menuHint: chalk.gray('ranges and terms like last:30 + edits - phase:Explore'),
       action: 'custom'
     });
 
-    // Strategy 5: View details
+    // Keep or drop whole work phases
+    const phaseCount = this.analysis.workPhases.length;
+    if (phaseCount > 1) {
+      strategies.push({
+        label: 'Phases',
+        hint: chalk.dim('keep or drop whole phases'),
+        menuLabel: 'Keep or drop whole phases',
+        menuHint: chalk.gray(`${phaseCount} phases detected`),
+        action: 'phases'
+      });
+    }
+
+    // Pick messages one by one in a full-screen list
+    strategies.push({
+      label: 'Browse messages',
+      hint: chalk.dim('toggle messages one by one'),
+      menuLabel: 'Browse and pick messages',
+      menuHint: chalk.gray('scroll, search, read and keep/drop each message or turn'),
+      action: 'browse'
+    });
+
+    // Toggles: strip old thinking blocks and images on top of the chosen strategy
+    const old = this.countOldBlocks();
+    strategies.push({
+      label: 'Strip old thinking',
+      hint: '',
+      menuLabel: `${this.stripThinking ? '[x]' : '[ ]'} Strip thinking before the last ${DEFAULT_STRIP_TURNS} turns`,
+      menuHint: chalk.gray(`${old.thinking} block${old.thinking === 1 ? '' : 's'}, ~${this.formatNumber(old.thinkingTokens)} tokens`),
+      action: 'toggle-thinking'
+    });
+    strategies.push({
+      label: 'Strip old images',
+      hint: '',
+      menuLabel: `${this.stripImages ? '[x]' : '[ ]'} Strip images before the last ${DEFAULT_STRIP_TURNS} turns`,
+      menuHint: chalk.gray(`${old.images} image${old.images === 1 ? '' : 's'}, ~${this.formatNumber(old.imageTokens)} tokens`),
+      action: 'toggle-images'
+    });
+
+    // View details
     strategies.push({
       label: 'View details',
       hint: chalk.dim('see all messages'),
@@ -171,17 +285,20 @@ export class InteractiveUI {
   }
 
   private async customRangeSelection(): Promise<PruneSelection | null> {
-    console.log('\n' + chalk.bold('Custom Range Selection'));
-    console.log(chalk.dim('Enter ranges to keep (e.g., "1-5,90-147" or "1-10,50-*" for end)'));
+    console.log('\n' + chalk.bold('Custom Selection'));
+    console.log(chalk.dim('Turn ranges like "1-3,20-*" (see View details), combined with terms such as first:N, last:N, turns:-N,'));
+    console.log(chalk.dim('phase:Debug, tool:Edit, edits, errors, user, match:/re/ and since:2h. Join with + or , and subtract with -'));
     console.log('');
 
     const input = await text({
-      message: 'Enter ranges to keep',
-      placeholder: '1-10,50-100',
+      message: 'Enter a selection to keep',
+      placeholder: 'last:30 + edits + first:2 - phase:Explore',
       validate: (value) => {
-        if (!value) return 'Please enter at least one range';
-        if (!/^(\d+(-(\d+|\*))?,?)+$/.test(value.replace(/\s/g, ''))) {
-          return 'Invalid format. Use "1-10,20-30" or "1-10,50-*"';
+        if (!value) return 'Please enter a selection';
+        try {
+          evaluateSelection(this.analyzer, value);
+        } catch (error) {
+          return (error as Error).message;
         }
       }
     });
@@ -190,10 +307,10 @@ export class InteractiveUI {
       return null;
     }
 
-    const indices = this.parseRanges(input);
+    const indices = evaluateSelection(this.analyzer, input);
     
     if (indices.length === 0) {
-      console.log(chalk.red('No valid indices found'));
+      console.log(chalk.red('The selection matches no messages'));
       return null;
     }
 
@@ -203,73 +320,178 @@ export class InteractiveUI {
     };
   }
 
-  private parseRanges(input: string): number[] {
+  private async phaseSelection(): Promise<PruneSelection | null> {
+    const phases = this.analysis.workPhases;
     const messageIndices = this.analyzer.getMessageIndices();
-    const totalMessages = messageIndices.length;
-    const indices = new Set<number>();
+    const linesOf = (phase: WorkPhase) => messageIndices.slice(phase.start, phase.end + 1);
+    const describe = (phase: WorkPhase, i: number) =>
+      `${i + 1} ${shortPhaseName(phase.description)} (lines ${messageIndices[phase.start] + 1}-${messageIndices[phase.end] + 1})`;
+
+    const choice = await multiselect({
+      message: 'Phases to keep (unselected phases are dropped)',
+      options: phases.map((phase, i) => {
+        const { errors, fileEdits, toolUses } = phase.characteristics;
+        const tokens = linesOf(phase).reduce((sum, index) => sum + this.analyzer.estimateLineTokens(index), 0);
+        return {
+          value: i,
+          label: describe(phase, i),
+          hint: `${phase.messageCount} msgs, ~${this.formatNumber(tokens)} tokens, ${errors} errors, ${fileEdits} edits, ${toolUses} tool uses`
+        };
+      }),
+      initialValues: phases.map((_, i) => i),
+      required: true
+    });
 
-    const ranges = input.split(',').map(r => r.trim());
-    
-    for (const range of ranges) {
-      if (range.includes('-')) {
-        const [startStr, endStr] = range.split('-');
-        const start = parseInt(startStr) - 1; // Convert to 0-based
-        const end = endStr === '*' ? totalMessages - 1 : parseInt(endStr) - 1;
-        
-        if (!isNaN(start) && (endStr === '*' || !isNaN(end))) {
-          const actualEnd = Math.min(end, totalMessages - 1);
-          for (let i = Math.max(0, start); i <= actualEnd; i++) {
-            if (messageIndices[i]) {
-              indices.add(messageIndices[i]);
-            }
+    if (!Array.isArray(choice)) {
+      return null;
+    }
+
+    const kept = [...choice].sort((a, b) => a - b);
+    let summarize = false;
+    if (kept.length < phases.length) {
+      const collapse = await confirm({
+        message: 'Collapse the dropped phases into summary messages?',
+        initialValue: false
+      });
+      if (typeof collapse !== 'boolean') return null;
+      summarize = collapse;
+    }
+
+    return {
+      indicesToKeep: this.analyzer.phaseIndices(kept.map(i => phases[i])),
+      strategy: `Phases kept: ${kept.map(i => describe(phases[i], i)).join(', ')}`,
+      summarize: summarize || undefined
+    };
+  }
+
+  private async browseSelection(): Promise<PruneSelection | null> {
+    const indices = await browseMessages(this.analyzer);
+    if (!indices) {
+      return await this.chooseStrategy();
+    }
+
+    return {
+      indicesToKeep: indices,
+      strategy: `Hand-picked (${indices.length} messages)`
+    };
+  }
+
+  private async tokenBudgetSelection(): Promise<PruneSelection | null> {
+    const input = await text({
+      message: `Target size in tokens ${chalk.dim(`(currently ~${this.formatNumber(this.analysis.totalTokens)})`)}`,
+      placeholder: '80k',
+      validate: (value) => {
+        const tokens = parseTokenCount(value || '');
+        if (isNaN(tokens) || tokens <= 0) return 'Enter a token count like "80000" or "80k"';
+      }
+    });
+
+    if (!input || typeof input !== 'string') {
+      return null;
+    }
+
+    const target = parseTokenCount(input);
+    try {
+      const plan = planTokenBudget(this.analyzer, target, { alwaysKeep: this.alwaysKeep });
+      console.log(chalk.gray('Projected: ') +
+        chalk.white(`${this.formatNumber(plan.beforeTokens)} → `) +
+        chalk.green(`${this.formatNumber(plan.afterTokens)} tokens`) +
+        chalk.gray(` (target ${this.formatNumber(target)})`));
+
+      return {
+        indicesToKeep: plan.indicesToKeep,
+        strategy: `Token budget (≤ ${this.formatNumber(target)} tokens)`
+      };
+    } catch (error) {
+      console.log(chalk.red(`✖ ${(error as Error).message}`));
+      return await this.chooseStrategy();
+    }
+  }
+
+  private async trimSelection(): Promise<PruneSelection | null> {
+    const input = await text({
+      message: 'Max lines to keep per tool output',
+      placeholder: String(DEFAULT_TRIM_LINES),
+      defaultValue: String(DEFAULT_TRIM_LINES),
+      validate: (value) => {
+        if (value && !(parseInt(value) > 0)) return 'Enter a positive number of lines';
+      }
+    });
+
+    if (typeof input !== 'string') {
+      return null;
+    }
+
+    const maxLines = parseInt(input) || DEFAULT_TRIM_LINES;
+    return {
+      indicesToKeep: this.analyzer.getMessageIndices(),
+      strategy: `Trim tool outputs (≤ ${maxLines} lines)`,
+      trimToolResults: maxLines
+    };
+  }
+
+  private countOversizedResults(maxLines: number): number {
+    return this.analysis.messageDetails.reduce((count, msg) =>
+      count + msg.blocks.filter(b =>
+        b.type === 'tool_result' && getToolResultText(b).split('\n').length > maxLines
+      ).length, 0);
+  }
+
+  private countOldBlocks(): { thinking: number; thinkingTokens: number; images: number; imageTokens: number } {
+    const before = this.analyzer.recentTurnsStart(DEFAULT_STRIP_TURNS);
+    const counts = { thinking: 0, thinkingTokens: 0, images: 0, imageTokens: 0 };
+    const accountant = this.analyzer.getTokenAccountant();
+
+    for (const msg of this.analysis.messageDetails) {
+      if (msg.index >= before) break;
+      for (const block of msg.blocks) {
+        const nested: any[] = block.type === 'tool_result' && Array.isArray(block.content) ? block.content : [block];
+        for (const part of nested) {
+          if (part?.type === 'thinking' || part?.type === 'redacted_thinking') {
+            counts.thinking++;
+            counts.thinkingTokens += accountant.charsToTokens(JSON.stringify(part).length);
+          } else if (part?.type === 'image') {
+            counts.images++;
+            counts.imageTokens += accountant.charsToTokens(JSON.stringify(part).length);
           }
         }
-      } else {
-        const idx = parseInt(range) - 1;
-        if (!isNaN(idx) && messageIndices[idx]) {
-          indices.add(messageIndices[idx]);
-        }
       }
     }
 
-    return Array.from(indices).sort((a, b) => a - b);
+    return counts;
   }
 
   private async showMessageDetails(): Promise<void> {
-    console.log('\n' + chalk.bold('Message Details:'));
+    console.log('\n' + chalk.bold('Turn Details:'));
     console.log(chalk.cyan('─'.repeat(60)) + '\n');
 
-    let currentRange: { start: number; end: number; description: string } | null = null;
-    
-    this.analysis.messageDetails.forEach((msg, i) => {
-      const description = this.describeMessage(msg);
-      
-      if (currentRange && currentRange.description === description) {
-        currentRange.end = i;
-      } else {
-        if (currentRange) {
-          this.printRange(currentRange);
-        }
-        currentRange = { start: i, end: i, description };
-      }
-    });
-
-    if (currentRange) {
-      this.printRange(currentRange);
+    const byIndex = new Map(this.analysis.messageDetails.map(m => [m.index, m]));
+
+    for (const turn of this.analyzer.getTurns()) {
+      const messages = turn.indices.map(i => byIndex.get(i)!);
+      const prompt = turn.promptIndex !== undefined ? byIndex.get(turn.promptIndex)?.content ?? '' : '';
+      const label = turn.number === 0 ? 'Preamble' : `Turn ${turn.number}`;
+
+      // Describe the turn by its most significant message
+      const summary = this.describeMessage({
+        hasFileEdit: messages.some(m => m.hasFileEdit),
+        hasCode: messages.some(m => m.hasCode),
+        hasError: messages.some(m => m.hasError),
+        hasTool: messages.some(m => m.hasTool)
+      });
+
+      const pinned = messages.filter(m => m.isPinned).length;
+      console.log(
+        `${label.padEnd(10)} ${chalk.white(truncate(prompt.replace(/\s+/g, ' ') || '(no prompt)', 50).padEnd(50))} ` +
+        chalk.dim(`${messages.length} msg${messages.length === 1 ? '' : 's'} • ${summary}`) +
+        (pinned > 0 ? chalk.yellow(` 📌 ${pinned}`) : '')
+      );
     }
 
     console.log('\n' + chalk.dim('Press Enter to return to menu...'));
     await text({ message: '', defaultValue: '' });
   }
 
-  private printRange(range: { start: number; end: number; description: string }): void {
-    const rangeStr = range.start === range.end 
-      ? `Message ${range.start + 1}`
-      : `Message ${range.start + 1}-${range.end + 1}`;
-    
-    console.log(`${rangeStr.padEnd(20)} ${range.description}`);
-  }
-
   private describeMessage(msg: any): string {
     const parts = [];
     
@@ -288,11 +510,20 @@ export class InteractiveUI {
     return parts.join(', ');
   }
 
+  private percentFreed(indicesToKeep: number[]): number {
+    const before = this.analysis.totalTokens;
+    if (before === 0) return 0;
+    const after = this.analyzer.projectTokens(this.withKept(indicesToKeep));
+    return Math.max(0, Math.round(((before - after) / before) * 100));
+  }
+
+  /** A keep-set as the pruner will apply it: with pins and `alwaysKeep` added. */
+  private withKept(indices: number[]): number[] {
+    return [...new Set([...this.analyzer.withPinned(indices), ...this.alwaysKeep])].sort((a, b) => a - b);
+  }
+
   private formatNumber(num: number): string {
-    if (num >= 1000) {
-      return `${(num / 1000).toFixed(1)}k`;
-    }
-    return num.toString();
+    return formatTokens(num);
   }
 
   private createProgressBar(percent: number): string {
@@ -310,16 +541,44 @@ export class InteractiveUI {
     return chalk.green('▓'.repeat(filled)) + chalk.gray('░'.repeat(empty));
   }
 
-  public async confirmPrune(indicesToKeep: number[], strategy: string): Promise<boolean> {
+  public async confirmPrune(selected: number[], strategy: string): Promise<boolean> {
+    const indicesToKeep = this.withKept(selected);
     const messageIndices = this.analyzer.getMessageIndices();
-    const percentFreed = Math.round(((messageIndices.length - indicesToKeep.length) / messageIndices.length) * 100);
+    const percentFreed = this.percentFreed(indicesToKeep);
+    const after = this.analyzer.projectTokens(indicesToKeep);
+    const turns = new Set(indicesToKeep.map(i => this.analyzer.getTurnOf(i)).filter(t => t && t.number > 0));
     
     console.log('');
-    console.log(chalk.yellow(`Will keep ${indicesToKeep.length} of ${messageIndices.length} messages (frees ~${percentFreed}% context)`));
+    console.log(chalk.yellow(
+      `Will keep ${indicesToKeep.length} of ${messageIndices.length} messages in ${turns.size} of ${this.analyzer.getPromptIndices().length} turns ` +
+      `(~${this.formatNumber(after)} tokens, frees ~${percentFreed}% context)`
+    ));
     
     return await confirm({
       message: chalk.yellow('Proceed with pruning?'),
       initialValue: true
     }) as boolean;
   }
-}
\ No newline at end of file
+}
+
+export async function pickSession(sessions: SessionSummary[]): Promise<SessionSummary | null> {
+  const choice = await select({
+    message: chalk.gray('Select session'),
+    options: sessions.map((s, i) => ({
+      value: i,
+      label: truncate(s.firstPrompt || chalk.dim('(no prompt)'), 60),
+      hint: [
+        s.projectPath || s.projectDir,
+        formatRelativeTime(s.modified),
+        `${s.messageCount} msgs`,
+        `~${formatTokens(s.estimatedTokens)} tokens`
+      ].join(' • ')
+    }))
+  });
+
+  return typeof choice === 'number' ? sessions[choice] : null;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
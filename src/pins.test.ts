@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs-extra';
+import { addPins, findPinnedIndices, hasPinMarker, loadPins, pinFileFor, removePins, resolvePinTarget } from './pins';
+import { transcript } from './test-fixtures';
+
+describe('hasPinMarker', () => {
+  it('should only count #pin as a word in something the user typed', () => {
+    const lines = transcript()
+      .user("#pin The spec: CSV import only")
+      .user("Keep this one\n#PIN")
+      .user("See issue #pinned-items")
+      .assistant("I will #pin that")
+      .tool("Bash", { command: "grep '#pin'" }, "#pin")
+      .build();
+
+    expect(lines.slice(1).map(line => hasPinMarker(JSON.parse(line)))).toEqual([true, true, false, false, false, false]);
+  });
+});
+
+describe('findPinnedIndices', () => {
+  it('should combine markers with pinned uuids', () => {
+    const lines = transcript().user("Spec #pin").assistant("ok").user("next").build();
+
+    expect(findPinnedIndices(lines)).toEqual([1]);
+    expect(findPinnedIndices(lines, ['uuid-3', 'uuid-gone'])).toEqual([1, 3]);
+  });
+});
+
+describe('resolvePinTarget', () => {
+  const lines = transcript().user("hi").assistant("hello").build();
+
+  it('should accept line numbers and uuids of messages', () => {
+    expect(resolvePinTarget(lines, '3')).toBe('uuid-2');
+    expect(resolvePinTarget(lines, 'uuid-1')).toBe('uuid-1');
+  });
+
+  it('should reject the metadata line, missing lines and unknown uuids', () => {
+    expect(() => resolvePinTarget(lines, '1')).toThrow('Line 1 is not a message');
+    expect(() => resolvePinTarget(lines, '9')).toThrow('Line 9 is not a message');
+    expect(() => resolvePinTarget(lines, 'uuid-9')).toThrow('No message with uuid uuid-9');
+  });
+});
+
+describe('pin sidecar', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'claude-prune-pins-'));
+    file = join(dir, 'abc.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should add, list and remove pins by uuid', async () => {
+    expect(await addPins(file, 'abc', ['uuid-1', 'uuid-2'])).toEqual(['uuid-1', 'uuid-2']);
+    expect(await addPins(file, 'abc', ['uuid-2', 'uuid-3'])).toEqual(['uuid-3']);
+    expect((await loadPins(file, 'abc')).map(p => p.uuid)).toEqual(['uuid-1', 'uuid-2', 'uuid-3']);
+    expect(pinFileFor(file, 'abc')).toBe(join(dir, 'prune-pins', 'abc.json'));
+
+    expect(await removePins(file, 'abc', ['uuid-2', 'uuid-9'])).toEqual(['uuid-2']);
+    expect((await loadPins(file, 'abc')).map(p => p.uuid)).toEqual(['uuid-1', 'uuid-3']);
+  });
+
+  it('should delete the file with the last pin', async () => {
+    await addPins(file, 'abc', ['uuid-1']);
+    await removePins(file, 'abc', ['uuid-1']);
+
+    expect(await fs.pathExists(pinFileFor(file, 'abc'))).toBe(false);
+    expect(await loadPins(file, 'abc')).toEqual([]);
+  });
+
+  it('should refuse a corrupt pin file', async () => {
+    await fs.outputFile(pinFileFor(file, 'abc'), '{ nope');
+
+    await expect(loadPins(file, 'abc')).rejects.toThrow('is not valid JSON');
+  });
+});
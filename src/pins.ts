@@ -0,0 +1,109 @@
+import { dirname, join } from 'path';
+import fs from 'fs-extra';
+import { getText, getToolResults } from './content';
+import { MSG_TYPES } from './types';
+
+// Pinned messages survive every prune. A user message pins itself by
+// containing `#pin` as a word; any message can be pinned by uuid in a sidecar
+// file next to the transcript, which outlives prunes and restores.
+
+export const PIN_MARKER = /(^|\s)#pin\b/i;
+
+export interface Pin {
+  uuid: string;
+  pinnedAt: string; // ISO time the pin was added
+}
+
+export function pinFileFor(sessionFile: string, sessionId: string): string {
+  return join(dirname(sessionFile), 'prune-pins', `${sessionId}.json`);
+}
+
+/** Whether a message pins itself: something the user typed that contains `#pin`. */
+export function hasPinMarker(obj: any): boolean {
+  if (obj?.type !== 'user' || obj.isMeta || getToolResults(obj).length > 0) return false;
+  return PIN_MARKER.test(getText(obj));
+}
+
+/** Line indices of the messages pinned by marker or by one of `uuids`. */
+export function findPinnedIndices(lines: string[], uuids: Iterable<string> = []): number[] {
+  const wanted = new Set(uuids);
+  const pinned: number[] = [];
+
+  lines.forEach((line, index) => {
+    if (index === 0) return; // Metadata is always kept anyway
+    try {
+      const obj = JSON.parse(line);
+      if (!MSG_TYPES.has(obj?.type)) return;
+      if (hasPinMarker(obj) || (typeof obj.uuid === 'string' && wanted.has(obj.uuid))) pinned.push(index);
+    } catch {
+      // Unparseable lines are neither messages nor pins
+    }
+  });
+
+  return pinned;
+}
+
+/**
+ * The uuid of the message a `pin` argument names: a 1-based line number as
+ * shown by `analyze`, `export` and the browser, or a uuid in the transcript.
+ */
+export function resolvePinTarget(lines: string[], target: string): string {
+  const parse = (line: string | undefined) => {
+    try {
+      const obj = JSON.parse(line ?? '');
+      return MSG_TYPES.has(obj?.type) ? obj : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  if (/^\d+$/.test(target)) {
+    const obj = parse(lines[parseInt(target) - 1]);
+    if (!obj || target === '1') throw new Error(`Line ${target} is not a message`);
+    if (typeof obj.uuid !== 'string') throw new Error(`The message on line ${target} has no uuid to pin it by`);
+    return obj.uuid;
+  }
+
+  if (!lines.some(line => parse(line)?.uuid === target)) {
+    throw new Error(`No message with uuid ${target} in the transcript`);
+  }
+  return target;
+}
+
+export async function loadPins(sessionFile: string, sessionId: string): Promise<Pin[]> {
+  const path = pinFileFor(sessionFile, sessionId);
+  if (!(await fs.pathExists(path))) return [];
+
+  const data = await fs.readJson(path).catch(() => {
+    throw new Error(`${path} is not valid JSON; fix or delete it to continue`);
+  });
+  return Array.isArray(data?.pins) ? data.pins.filter((p: any) => typeof p?.uuid === 'string') : [];
+}
+
+/** Pin messages by uuid. Returns the uuids that were not pinned before. */
+export async function addPins(sessionFile: string, sessionId: string, uuids: string[]): Promise<string[]> {
+  const pins = await loadPins(sessionFile, sessionId);
+  const existing = new Set(pins.map(p => p.uuid));
+  const added = [...new Set(uuids)].filter(uuid => !existing.has(uuid));
+
+  const pinnedAt = new Date().toISOString();
+  await savePins(sessionFile, sessionId, [...pins, ...added.map(uuid => ({ uuid, pinnedAt }))]);
+  return added;
+}
+
+/** Unpin messages by uuid. Returns the uuids that were pinned. */
+export async function removePins(sessionFile: string, sessionId: string, uuids: string[]): Promise<string[]> {
+  const pins = await loadPins(sessionFile, sessionId);
+  const unwanted = new Set(uuids);
+  await savePins(sessionFile, sessionId, pins.filter(p => !unwanted.has(p.uuid)));
+  return pins.filter(p => unwanted.has(p.uuid)).map(p => p.uuid);
+}
+
+async function savePins(sessionFile: string, sessionId: string, pins: Pin[]): Promise<void> {
+  const path = pinFileFor(sessionFile, sessionId);
+  if (pins.length === 0) {
+    await fs.remove(path);
+    return;
+  }
+  await fs.outputJson(path, { pins }, { spaces: 2 });
+}
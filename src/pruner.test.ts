@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { SmartPruner } from './pruner';
+import { SessionAnalyzer } from './analyzer';
+import { transcript } from './test-fixtures';
 
 describe('SmartPruner', () => {
   const createMessage = (type: string, content: string = "test") => 
@@ -20,6 +22,7 @@ describe('SmartPruner', () => {
 
     expect(result.kept).toBe(3);
     expect(result.dropped).toBe(2);
+    expect(result.droppedIndices).toEqual([2, 3]);
     expect(result.strategy).toBe("test strategy");
     expect(result.outLines).toHaveLength(4); // metadata + 3 kept messages
   });
@@ -86,8 +89,8 @@ describe('SmartPruner', () => {
 
     const result = SmartPruner.pruneSessionLines(lines, 2);
 
-    expect(result.kept).toBe(3); // Last 2 assistant messages + user messages between
-    expect(result.dropped).toBe(3);
+    expect(result.kept).toBe(4); // Whole turns of the last 2 assistant messages
+    expect(result.dropped).toBe(2);
     expect(result.assistantCount).toBe(3);
   });
 
@@ -104,4 +107,413 @@ describe('SmartPruner', () => {
     expect(result.outLines[0]).toBe(lines[0]);
     expect(result.outLines).toHaveLength(1);
   });
-});
\ No newline at end of file
+
+  describe('parentUuid repair', () => {
+    const createLinked = (type: string, uuid: string, parentUuid: string | null, extra: object = {}) =>
+      JSON.stringify({ type, uuid, parentUuid, message: { content: uuid }, ...extra });
+
+    it('should relink kept lines to the nearest surviving ancestor', () => {
+      const lines = [
+        JSON.stringify({ type: "summary", leafUuid: "u5" }),
+        createLinked("user", "u1", null),
+        createLinked("assistant", "u2", "u1"),
+        createLinked("user", "u3", "u2"),
+        createLinked("assistant", "u4", "u3"),
+        createLinked("user", "u5", "u4"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 5], "test");
+
+      expect(result.relinked).toBe(1);
+      expect(JSON.parse(result.outLines[1]).parentUuid).toBeNull();
+      expect(JSON.parse(result.outLines[2]).parentUuid).toBe("u1");
+    });
+
+    it('should set parentUuid to null when no ancestor survives', () => {
+      const lines = [
+        JSON.stringify({ type: "summary" }),
+        createLinked("user", "u1", null),
+        createLinked("assistant", "u2", "u1"),
+        createLinked("user", "u3", "u2"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([3], "test");
+
+      expect(result.relinked).toBe(1);
+      expect(JSON.parse(result.outLines[1]).parentUuid).toBeNull();
+    });
+
+    it('should keep branches attached to their own ancestors', () => {
+      const lines = [
+        JSON.stringify({ type: "summary" }),
+        createLinked("user", "root", null),
+        createLinked("assistant", "a1", "root"),
+        createLinked("user", "branch-a", "a1"),
+        createLinked("user", "branch-b", "a1"),
+        createLinked("assistant", "a2", "branch-b"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 3, 5], "test");
+
+      expect(result.relinked).toBe(2);
+      expect(JSON.parse(result.outLines[2]).parentUuid).toBe("root");
+      expect(JSON.parse(result.outLines[3]).parentUuid).toBe("root");
+    });
+
+    it('should keep sidechains rooted in the sidechain', () => {
+      const lines = [
+        JSON.stringify({ type: "summary" }),
+        createLinked("user", "m1", null),
+        createLinked("user", "s1", null, { isSidechain: true }),
+        createLinked("assistant", "s2", "s1", { isSidechain: true }),
+        createLinked("user", "s3", "s2", { isSidechain: true }),
+        createLinked("assistant", "m2", "m1"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 2, 4, 5], "test");
+
+      expect(result.relinked).toBe(1);
+      expect(JSON.parse(result.outLines[3]).parentUuid).toBe("s1");
+      expect(JSON.parse(result.outLines[4]).parentUuid).toBe("m1");
+    });
+
+    it('should relink non-message lines that point at dropped messages', () => {
+      const lines = [
+        JSON.stringify({ type: "summary" }),
+        createLinked("user", "u1", null),
+        createLinked("assistant", "u2", "u1"),
+        JSON.stringify({ type: "attachment", uuid: "x1", parentUuid: "u2" }),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1], "test");
+
+      expect(result.relinked).toBe(1);
+      expect(JSON.parse(result.outLines[2]).parentUuid).toBe("u1");
+    });
+
+    it('should leave links to unknown uuids untouched', () => {
+      const lines = [
+        JSON.stringify({ type: "summary" }),
+        createLinked("user", "u1", "from-another-file"),
+        createLinked("assistant", "u2", "u1"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 2], "test");
+
+      expect(result.relinked).toBe(0);
+      expect(result.outLines[1]).toBe(lines[1]);
+      expect(result.outLines[2]).toBe(lines[2]);
+    });
+  });
+
+  describe('tool pairing', () => {
+    const toolUse = (id: string, name: string = "Read") =>
+      JSON.stringify({ type: "assistant", message: { role: "assistant", content: [{ type: "tool_use", id, name, input: {} }] } });
+
+    const toolResult = (id: string) =>
+      JSON.stringify({ type: "user", message: { role: "user", content: [{ type: "tool_result", tool_use_id: id, content: "ok" }] } });
+
+    it('should pull in the tool_use for a kept tool_result', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        createMessage("user", "read the file"),
+        toolUse("toolu_1"),
+        toolResult("toolu_1"),
+        createMessage("assistant", "done"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([3, 4], "test");
+
+      expect(result.kept).toBe(3);
+      expect(result.pairAdjustments).toEqual([
+        { index: 2, action: 'added', toolUseId: 'toolu_1', reason: 'tool_use for kept tool_result' }
+      ]);
+    });
+
+    it('should pull in the tool_result for a kept tool_use', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        toolUse("toolu_1", "Bash"),
+        toolResult("toolu_1"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1], "test");
+
+      expect(result.kept).toBe(2);
+      expect(result.pairAdjustments[0]).toMatchObject({ index: 2, action: 'added', reason: 'tool_result for Bash' });
+    });
+
+    it('should drop tool_results whose tool_use is missing from the transcript', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        toolResult("toolu_gone"),
+        createMessage("assistant", "done"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 2], "test");
+
+      expect(result.kept).toBe(1);
+      expect(result.dropped).toBe(1);
+      expect(result.pairAdjustments[0]).toMatchObject({ index: 1, action: 'removed', toolUseId: 'toolu_gone' });
+    });
+
+    it('should leave a trailing tool_use without a result alone', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        createMessage("user", "go"),
+        toolUse("toolu_pending"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([2], "test");
+
+      expect(result.kept).toBe(1);
+      expect(result.pairAdjustments).toHaveLength(0);
+    });
+
+    it('should follow chains of pairs across parallel tool calls', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        JSON.stringify({ type: "assistant", message: { content: [
+          { type: "tool_use", id: "a", name: "Read", input: {} },
+          { type: "tool_use", id: "b", name: "Read", input: {} },
+        ] } }),
+        toolResult("a"),
+        toolResult("b"),
+      ];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([2], "test");
+
+      expect(result.kept).toBe(3);
+      expect(result.pairAdjustments.map(a => a.index)).toEqual([1, 3]);
+    });
+  });
+
+  describe('tool output trimming', () => {
+    const bigResult = (id: string, lines: number) =>
+      JSON.stringify({ type: "user", message: { content: [{ type: "tool_result", tool_use_id: id, content: Array(lines).fill("x").join("\n") }] } });
+    const toolUse = (id: string) =>
+      JSON.stringify({ type: "assistant", message: { content: [{ type: "tool_use", id, name: "Read", input: {} }] } });
+
+    it('should trim kept tool outputs when asked', () => {
+      const lines = [JSON.stringify({ type: "metadata" }), toolUse("a"), bigResult("a", 500)];
+
+      const pruner = new SmartPruner(lines);
+      const result = pruner.pruneWithIndices([1, 2], "test", { trimToolResults: 50 });
+
+      expect(result.kept).toBe(2);
+      expect(result.trimmed).toMatchObject({ results: 1, linesElided: 450 });
+      expect(result.outLines[2]).toContain("lines elided by claude-prune");
+    });
+
+    it('should leave outputs whole by default', () => {
+      const lines = [JSON.stringify({ type: "metadata" }), toolUse("a"), bigResult("a", 500)];
+
+      const result = new SmartPruner(lines).pruneWithIndices([1, 2], "test");
+
+      expect(result.trimmed.results).toBe(0);
+      expect(result.outLines[2]).toBe(lines[2]);
+    });
+
+    it('should combine with the legacy keep-N strategy', () => {
+      const lines = [
+        JSON.stringify({ type: "metadata" }),
+        createMessage("user", "1"),
+        createMessage("assistant", "2"),
+        toolUse("a"),
+        bigResult("a", 500),
+      ];
+
+      const result = SmartPruner.pruneSessionLines(lines, 1, { trimToolResults: 10 });
+
+      expect(result.kept).toBe(4); // One turn: the prompt through the tool result
+      expect(result.trimmed.results).toBe(1);
+    });
+  });
+
+  describe('stale read elision', () => {
+    it('should collapse stale reads but keep their tool_use stubs', () => {
+      const lines = transcript()
+        .tool("Read", { file_path: "/src/app.ts" }, "old ".repeat(500))
+        .tool("Read", { file_path: "/src/app.ts" }, "new")
+        .build();
+      const analyzer = new SessionAnalyzer(lines);
+
+      const result = new SmartPruner(lines).pruneWithIndices(analyzer.getMessageIndices(), "test", {
+        staleReads: analyzer.findStaleReads()
+      });
+
+      expect(result.kept).toBe(4);
+      expect(result.outLines[1]).toBe(lines[1]);
+      expect(result.outLines[2]).toContain("elided by claude-prune");
+      expect(result.outLines[4]).toBe(lines[4]);
+      expect(result.staleReads.files["/src/app.ts"].reads).toBe(1);
+    });
+  });
+
+  describe('thinking and image stripping', () => {
+    const buildSession = () => transcript()
+      .user("Look at this")
+      .image("image/png")
+      .thinking("Considering the screenshot")
+      .assistant("Looks fine")
+      .user("And this one?")
+      .image("image/jpeg")
+      .thinking("Second look")
+      .assistant("Also fine")
+      .build();
+
+    it('should strip only before the cutoff and drop lines left empty', () => {
+      const lines = buildSession();
+      const analyzer = new SessionAnalyzer(lines);
+      const before = analyzer.recentTurnsStart(1);
+
+      const result = new SmartPruner(lines).pruneWithIndices(analyzer.getMessageIndices(), "test", {
+        stripThinkingBefore: before,
+        stripImagesBefore: before
+      });
+      const out = result.outLines.map(l => JSON.parse(l));
+
+      expect(before).toBe(6);
+      expect(result.stripped).toMatchObject({ thinkingBlocks: 1, thinkingOnlyLines: 1, images: 1 });
+      expect(result.dropped).toBe(0);
+      expect(result.kept + result.dropped + result.stripped.thinkingOnlyLines).toBe(analyzer.getMessageIndices().length);
+      expect(result.droppedIndices).toEqual([]);
+      expect(out.map(o => o.uuid)).toEqual([undefined, "uuid-1", "uuid-2", "uuid-4", "uuid-5", "uuid-6", "uuid-7", "uuid-8"]);
+      expect(out[2].message.content[0].text).toBe("[image/png image, 2.2 KB, removed by claude-prune]");
+      expect(out[3].parentUuid).toBe("uuid-2");
+      expect(out[6].message.content[0].type).toBe("thinking");
+    });
+
+    it('should not summarise lines emptied by stripping as dropped spans', () => {
+      const lines = buildSession();
+      const analyzer = new SessionAnalyzer(lines);
+
+      const result = new SmartPruner(lines).pruneWithIndices([1, 2, 3, 4, 6, 7, 8], "test", {
+        stripThinkingBefore: analyzer.recentTurnsStart(1),
+        summarizeDropped: true
+      });
+      const out = result.outLines.map(l => JSON.parse(l));
+
+      expect(result.summaries).toBe(1);
+      expect(result.droppedIndices).toEqual([5]);
+      expect(out.filter(o => o.isCompactSummary).map(o => o.parentUuid)).toEqual(["uuid-4"]);
+    });
+
+    it('should leave content alone without a cutoff', () => {
+      const lines = buildSession();
+      const result = new SmartPruner(lines).pruneWithIndices(new SessionAnalyzer(lines).getMessageIndices(), "test");
+
+      expect(result.stripped.thinkingBlocks + result.stripped.images).toBe(0);
+      expect(result.outLines.slice(1)).toEqual(lines.slice(1));
+    });
+  });
+
+  describe('dropped span summaries', () => {
+    const buildSession = () => transcript()
+      .user("Set up the project")
+      .assistant("Done")
+      .user("Fix the login bug")
+      .tool("Edit", { file_path: "/src/login.ts", old_string: "a", new_string: "b" }, "ok")
+      .user("Now write docs")
+      .assistant("Writing docs")
+      .build();
+
+    it('should insert one summary per dropped span and link around it', () => {
+      const lines = buildSession();
+
+      const result = new SmartPruner(lines).pruneWithIndices([1, 2, 7], "test", { summarizeDropped: true });
+      const out = result.outLines.map(l => JSON.parse(l));
+
+      expect(result.summaries).toBe(1);
+      expect(out.map(o => o.uuid)).toEqual([undefined, "uuid-1", "uuid-2", out[3].uuid, "uuid-7"]);
+      expect(out[3]).toMatchObject({ type: "user", isCompactSummary: true, parentUuid: "uuid-2" });
+      expect(out[3].message.content).toContain("/src/login.ts");
+      expect(out[4].parentUuid).toBe(out[3].uuid);
+    });
+
+    it('should summarise leading and trailing spans separately', () => {
+      const lines = buildSession();
+
+      const result = new SmartPruner(lines).pruneWithIndices([3, 4, 5], "test", { summarizeDropped: true });
+      const out = result.outLines.map(l => JSON.parse(l));
+
+      expect(result.summaries).toBe(2);
+      expect(out[1]).toMatchObject({ isCompactSummary: true, parentUuid: null });
+      expect(out[2].parentUuid).toBe(out[1].uuid);
+      expect(out[5]).toMatchObject({ isCompactSummary: true, parentUuid: "uuid-5" });
+    });
+
+    it('should not summarise unless asked', () => {
+      const result = new SmartPruner(buildSession()).pruneWithIndices([1, 2, 7], "test");
+
+      expect(result.summaries).toBe(0);
+      expect(result.outLines).toHaveLength(4);
+    });
+  });
+
+  describe('pinned messages', () => {
+    const buildSession = () => transcript()
+      .user("Spec: never touch the migrations folder #pin")
+      .assistant("Understood")
+      .tool("Read", { file_path: "/docs/adr-7.md" }, "Decision: use Postgres")
+      .user("Fix the login bug")
+      .assistant("Fixed")
+      .build();
+
+    it('should keep #pin messages and sidecar pins whatever the selection', () => {
+      const result = new SmartPruner(buildSession()).pruneWithIndices([5, 6], "test", { pinnedUuids: ["uuid-3"] });
+
+      expect(result.outLines.slice(1).map(l => JSON.parse(l).uuid)).toEqual(["uuid-1", "uuid-3", "uuid-4", "uuid-5", "uuid-6"]);
+      expect(result.pinned).toEqual([1, 3]);
+      expect(result.pairAdjustments.map(a => [a.index, a.action])).toEqual([[4, "added"]]);
+    });
+
+    it('should report nothing when the selection already keeps the pins', () => {
+      const result = new SmartPruner(buildSession()).pruneWithIndices([1, 2, 5, 6], "test");
+
+      expect(result.pinned).toEqual([]);
+      expect(result.kept).toBe(4);
+    });
+  });
+
+  describe('working state', () => {
+    const buildSession = () => transcript()
+      .user("Plan the importer")
+      .tool("ExitPlanMode", { plan: "1. Parse CSV" }, "User has approved your plan")
+      .tool("TodoWrite", { todos: [{ content: "Parse CSV", status: "in_progress" }] }, "Todos updated")
+      .user("Go on")
+      .assistant("Done")
+      .build();
+
+    it('should keep the latest todo list and approved plan with their results', () => {
+      const lines = buildSession();
+      const workingState = new SessionAnalyzer(lines).findWorkingState();
+
+      const result = new SmartPruner(lines).pruneWithIndices([6, 7], "test", { workingState });
+
+      expect(result.droppedIndices).toEqual([1]);
+      expect(result.workingState).toEqual([
+        { kind: "todo", indices: [4, 5] },
+        { kind: "plan", indices: [2, 3] }
+      ]);
+    });
+
+    it('should drop them like anything else when not asked to keep them', () => {
+      const result = new SmartPruner(buildSession()).pruneWithIndices([6, 7], "test");
+
+      expect(result.droppedIndices).toEqual([1, 2, 3, 4, 5]);
+      expect(result.workingState).toEqual([]);
+    });
+  });
+});
@@ -1,10 +1,56 @@
 import { MSG_TYPES } from './types';
+import { getToolResults, getToolUses } from './content';
+import { SessionAnalyzer, type StaleRead, type WorkingState } from './analyzer';
+import { createRegistry } from './strategies';
+import { buildSummaryLine } from './summary';
+import { findPinnedIndices } from './pins';
+import { markUsageStale } from './tokens';
+import {
+  elideStaleReads,
+  emptyStaleReadStats,
+  emptyStripStats,
+  emptyTrimStats,
+  stripImages,
+  stripThinking,
+  trimToolResults,
+  type StaleReadStats,
+  type StripStats,
+  type TrimStats
+} from './transforms';
+
+export interface PairAdjustment {
+  index: number;
+  action: 'added' | 'removed';
+  toolUseId: string;
+  reason: string;
+}
 
 export interface PruneResult {
   outLines: string[];
   kept: number;
   dropped: number;
+  keptIndices: number[];    // Source line indices of the kept messages
+  droppedIndices: number[]; // Source line indices of the dropped messages
   strategy: string;
+  relinked: number; // parentUuid links rewritten to a surviving ancestor
+  pairAdjustments: PairAdjustment[];
+  trimmed: TrimStats;
+  staleReads: StaleReadStats;
+  stripped: StripStats;
+  summaries: number; // Synthetic summary lines inserted for dropped spans
+  summaryUuids: string[];
+  pinned: number[];  // Pinned lines kept although the selection left them out
+  workingState: { kind: keyof WorkingState; indices: number[] }[]; // Snapshots kept although the selection dropped them
+}
+
+export interface PrunerOptions {
+  trimToolResults?: number; // Max lines kept per tool_result; unset leaves outputs whole
+  staleReads?: StaleRead[];  // Read results to collapse, from SessionAnalyzer.findStaleReads
+  summarizeDropped?: boolean; // Insert an extractive summary line in place of each dropped span
+  stripThinkingBefore?: number; // Remove thinking blocks from lines before this index
+  stripImagesBefore?: number;   // Replace images with a placeholder in lines before this index
+  pinnedUuids?: string[];       // Sidecar pins; `#pin` messages are kept without being listed
+  workingState?: WorkingState;  // Todo list and plan to keep, from SessionAnalyzer.findWorkingState
 }
 
 export class SmartPruner {
@@ -14,53 +60,289 @@ export class SmartPruner {
     this.lines = lines;
   }
 
-  public pruneWithIndices(indicesToKeep: number[], strategy: string): PruneResult {
+  public pruneWithIndices(indicesToKeep: number[], strategy: string, options: PrunerOptions = {}): PruneResult {
     const keptSet = new Set(indicesToKeep);
-    const outLines: string[] = [];
+    // Pins join before tool pairs are balanced, so a pinned call keeps its result
+    const pinnedSet = new Set(findPinnedIndices(this.lines, options.pinnedUuids));
+    const pinned = [...pinnedSet].filter(idx => !keptSet.has(idx));
+    pinned.forEach(idx => keptSet.add(idx));
+    const workingState: PruneResult['workingState'] = [];
+    for (const kind of ['todo', 'plan'] as const) {
+      const snapshot = options.workingState?.[kind];
+      if (!snapshot) continue;
+      const indices = [snapshot.useIndex, snapshot.resultIndex];
+      if (indices.some(idx => !keptSet.has(idx))) workingState.push({ kind, indices });
+      indices.forEach(idx => keptSet.add(idx));
+    }
+    const outIndices: number[] = [];
+    const trimmed = emptyTrimStats();
+    const staleReads = emptyStaleReadStats();
+    const stripped = emptyStripStats();
     let kept = 0;
     let dropped = 0;
+    const keptIndices: number[] = [];
+    const droppedIndices: number[] = [];
 
-    // Always include first line (metadata)
-    if (this.lines.length > 0) {
-      outLines.push(this.lines[0]);
+    if (this.lines.length === 0) {
+      return { outLines: [], kept, dropped, keptIndices, droppedIndices, strategy, relinked: 0, pairAdjustments: [], trimmed, staleReads, stripped, summaries: 0, summaryUuids: [], pinned: [], workingState: [] };
     }
 
+    const pairAdjustments = this.balanceToolPairs(keptSet);
+
+    // Always include first line (metadata), untouched
+    outIndices.push(0);
+
     // Apply cache token hack
     const processedLines = this.applyCacheTokenHack(this.lines);
+    processedLines[0] = this.lines[0];
+
+    if (options.staleReads?.length) {
+      const stale = new Map(options.staleReads.map(r => [r.toolUseId, r]));
+      this.transformKept(processedLines, keptSet, obj => elideStaleReads(obj, stale, staleReads));
+    }
+
+    if (options.trimToolResults) {
+      const maxLines = options.trimToolResults;
+      this.transformKept(processedLines, keptSet, obj => trimToolResults(obj, maxLines, trimmed));
+    }
+
+    if (options.stripImagesBefore) {
+      const before = options.stripImagesBefore;
+      this.transformKept(processedLines, keptSet, (obj, idx) => idx < before && stripImages(obj, stripped));
+    }
+
+    // Thinking-only lines emptied by stripping: removed, but not dropped by the selection
+    const emptied = new Set<number>();
+    if (options.stripThinkingBefore) {
+      const before = options.stripThinkingBefore;
+      this.transformKept(processedLines, keptSet, (obj, idx) => {
+        if (idx >= before || !stripThinking(obj, stripped)) return false;
+        if (obj.message.content.length === 0 && !pinnedSet.has(idx)) emptied.add(idx);
+        return true;
+      });
+      // A thinking-only line has nothing left to say; leave it out and let relinking bridge the gap
+      emptied.forEach(idx => keptSet.delete(idx));
+      stripped.thinkingOnlyLines = emptied.size;
+    }
+
+    // Dropped main-chain spans, collected when summaries are requested
+    const summaryLines: string[] = [];
+    const summaryUuids: string[] = [];
+    const replacements = new Map<string, string>();
+    let span: { objs: any[]; insertAt: number } | null = null;
+
+    const flushSpan = () => {
+      if (!span) return;
+      const { uuid, obj } = buildSummaryLine(span.objs);
+      span.objs.forEach(o => {
+        if (typeof o.uuid === 'string') replacements.set(o.uuid, uuid);
+      });
+      outIndices.splice(span.insertAt, 0, processedLines.length + summaryLines.length);
+      summaryLines.push(JSON.stringify(obj));
+      summaryUuids.push(uuid);
+      span = null;
+    };
 
     // Process each line
     processedLines.forEach((line, idx) => {
-      if (idx === 0) return; // Already added
+      if (idx === 0 || emptied.has(idx)) return; // Already added, or stripped away
 
-      const isMessage = this.isMessageLine(line);
+      const obj = this.parseMessage(line);
       
-      if (isMessage) {
+      if (obj) {
+        const mainChain = !obj.isSidechain;
         if (keptSet.has(idx)) {
           kept++;
-          outLines.push(line);
+          keptIndices.push(idx);
+          if (mainChain) flushSpan();
+          outIndices.push(idx);
         } else {
           dropped++;
+          droppedIndices.push(idx);
+          if (options.summarizeDropped && mainChain) {
+            span = span ?? { objs: [], insertAt: outIndices.length };
+            span.objs.push(obj);
+          }
         }
       } else {
         // Always keep non-message lines (tool results, diagnostics)
-        outLines.push(line);
+        outIndices.push(idx);
       }
     });
+    flushSpan();
+
+    const { outLines, relinked } = this.relinkParents([...processedLines, ...summaryLines], outIndices, replacements);
+    markUsageStale(outLines);
 
     return {
       outLines,
       kept,
       dropped,
-      strategy
+      keptIndices,
+      droppedIndices,
+      strategy,
+      relinked,
+      pairAdjustments,
+      trimmed,
+      staleReads,
+      stripped,
+      summaries: summaryLines.length,
+      summaryUuids,
+      pinned,
+      workingState
     };
   }
 
-  private isMessageLine(line: string): boolean {
+  /** Rewrite kept message lines in place; `transform` returns true when it changed the object. */
+  private transformKept(lines: string[], keptSet: Set<number>, transform: (obj: any, idx: number) => boolean): void {
+    keptSet.forEach(idx => {
+      if (idx === 0 || idx >= lines.length) return;
+      try {
+        const obj = JSON.parse(lines[idx]);
+        if (MSG_TYPES.has(obj.type) && transform(obj, idx)) {
+          lines[idx] = JSON.stringify(obj);
+        }
+      } catch {
+        // Not JSON
+      }
+    });
+  }
+
+  /**
+   * Grow or shrink the keep-set until every kept tool_use has its tool_result
+   * and vice versa. Partners are pulled back in when they exist; a tool_result
+   * whose tool_use is nowhere in the transcript is dropped, since the API
+   * rejects it. A trailing tool_use without a result is left for Claude Code
+   * to resolve on resume.
+   */
+  private balanceToolPairs(keptSet: Set<number>): PairAdjustment[] {
+    const uses = new Map<string, number>();
+    const results = new Map<string, number[]>();
+    const parsed = new Map<number, any>();
+
+    this.lines.forEach((ln, i) => {
+      if (i === 0) return;
+      try {
+        const obj = JSON.parse(ln);
+        if (!MSG_TYPES.has(obj.type)) return;
+        parsed.set(i, obj);
+        getToolUses(obj).forEach(b => uses.set(b.id, i));
+        getToolResults(obj).forEach(b => {
+          results.set(b.tool_use_id, [...(results.get(b.tool_use_id) || []), i]);
+        });
+      } catch {
+        // Not JSON
+      }
+    });
+
+    const adjustments: PairAdjustment[] = [];
+    const queue = [...keptSet].filter(i => parsed.has(i));
+
+    const add = (index: number, toolUseId: string, reason: string) => {
+      if (keptSet.has(index)) return;
+      keptSet.add(index);
+      queue.push(index);
+      adjustments.push({ index, action: 'added', toolUseId, reason });
+    };
+
+    while (queue.length > 0) {
+      const idx = queue.shift()!;
+      if (!keptSet.has(idx)) continue;
+      const obj = parsed.get(idx);
+
+      for (const block of getToolUses(obj)) {
+        (results.get(block.id) || []).forEach(r => add(r, block.id, `tool_result for ${block.name || 'tool'}`));
+      }
+
+      for (const block of getToolResults(obj)) {
+        const useIdx = uses.get(block.tool_use_id);
+        if (useIdx === undefined) {
+          keptSet.delete(idx);
+          adjustments.push({
+            index: idx,
+            action: 'removed',
+            toolUseId: block.tool_use_id,
+            reason: 'tool_result without a matching tool_use'
+          });
+          break;
+        }
+        add(useIdx, block.tool_use_id, 'tool_use for kept tool_result');
+      }
+    }
+
+    return adjustments.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Point every surviving line at its nearest surviving ancestor. Ancestry is
+   * walked through the original links, so branches and sidechains stay rooted
+   * where they were. Links to uuids that never existed in the file are left alone.
+   */
+  private relinkParents(
+    lines: string[],
+    outIndices: number[],
+    replacements: Map<string, string> = new Map()
+  ): { outLines: string[]; relinked: number } {
+    const parsed = lines.map(ln => {
+      try {
+        return JSON.parse(ln);
+      } catch {
+        return null;
+      }
+    });
+
+    const parents = new Map<string, string | null>();
+    parsed.forEach(obj => {
+      if (typeof obj?.uuid === 'string') {
+        parents.set(obj.uuid, obj.parentUuid ?? null);
+      }
+    });
+
+    const surviving = new Set<string>();
+    outIndices.forEach(i => {
+      if (typeof parsed[i]?.uuid === 'string') surviving.add(parsed[i].uuid);
+    });
+
+    const nearestSurviving = (uuid: string, self?: string): string | null => {
+      const seen = new Set<string>();
+      let current: string | null = uuid;
+      while (current && !surviving.has(current) && parents.has(current) && !seen.has(current)) {
+        // A dropped line that was folded into a summary hands its children to that summary
+        const replacement = replacements.get(current);
+        if (replacement && replacement !== self) return replacement;
+        seen.add(current);
+        current = parents.get(current) ?? null;
+      }
+      return current;
+    };
+
+    let relinked = 0;
+    const outLines = outIndices.map(i => {
+      const obj = parsed[i];
+      if (!obj) return lines[i];
+
+      let changed = false;
+      for (const field of ['parentUuid', 'logicalParentUuid']) {
+        const parent = obj[field];
+        if (typeof parent !== 'string' || surviving.has(parent) || !parents.has(parent)) continue;
+
+        obj[field] = nearestSurviving(parent, obj.uuid);
+        relinked++;
+        changed = true;
+      }
+
+      return changed ? JSON.stringify(obj) : lines[i];
+    });
+
+    return { outLines, relinked };
+  }
+
+  private parseMessage(line: string): any | null {
     try {
       const obj = JSON.parse(line);
-      return MSG_TYPES.has(obj.type);
+      return MSG_TYPES.has(obj.type) ? obj : null;
     } catch {
-      return false;
+      return null;
     }
   }
 
@@ -101,42 +383,18 @@ export class SmartPruner {
   // Legacy method for backward compatibility
   public static pruneSessionLines(
     lines: string[], 
-    keepN: number
-  ): { outLines: string[]; kept: number; dropped: number; assistantCount: number } {
+    keepN: number,
+    options: PrunerOptions = {}
+  ): PruneResult & { assistantCount: number } {
     const pruner = new SmartPruner(lines);
-    const msgIndices: number[] = [];
-    const assistantIndices: number[] = [];
-
-    // Find all message indices
-    lines.forEach((ln, i) => {
-      if (i === 0) return;
-      try {
-        const { type } = JSON.parse(ln);
-        if (MSG_TYPES.has(type)) {
-          msgIndices.push(i);
-          if (type === 'assistant') {
-            assistantIndices.push(i);
-          }
-        }
-      } catch {
-        // Not JSON
-      }
-    });
+    const analyzer = new SessionAnalyzer(lines);
+    const indicesToKeep = createRegistry().require('keep').getIndicesToKeep(analyzer, { keep: keepN });
 
-    // Find cutoff based on last N assistant messages
-    let indicesToKeep: number[] = [];
-    if (assistantIndices.length > keepN) {
-      const cutFrom = assistantIndices[assistantIndices.length - keepN];
-      indicesToKeep = msgIndices.filter(idx => idx >= cutFrom);
-    } else {
-      indicesToKeep = msgIndices;
-    }
-
-    const result = pruner.pruneWithIndices(indicesToKeep, `Keep last ${keepN} assistant messages`);
+    const result = pruner.pruneWithIndices(indicesToKeep, `Keep last ${keepN} assistant messages`, options);
     
     return {
       ...result,
-      assistantCount: assistantIndices.length
+      assistantCount: analyzer.getAssistantIndices().length
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { SessionAnalyzer } from './analyzer';
+import { SmartPruner } from './pruner';
+import { REPORT_SCHEMA_VERSION, buildAnalysisReport, buildPruneReport } from './report';
+import { transcript } from './test-fixtures';
+import { VERSION } from './version';
+
+const session = { id: 'abc', file: '/tmp/abc.jsonl' };
+
+describe('buildAnalysisReport', () => {
+  it('should describe the session, its turns and every message', () => {
+    const lines = transcript()
+      .user("Set up the project")
+      .tool("Edit", { file_path: "/src/app.ts", old_string: "a", new_string: "b" }, "File updated")
+      .assistant("Done")
+      .user("Now " + "explain it in detail ".repeat(10))
+      .assistant("Sure")
+      .build();
+
+    const report = buildAnalysisReport(session, new SessionAnalyzer(lines));
+
+    expect(report).toMatchObject({
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      kind: 'analysis',
+      tool: { name: 'claude-prune', version: VERSION },
+      session: { id: 'abc', lines: lines.length, messages: 6, turns: 2 }
+    });
+    expect(report.turns.map(t => [t.number, t.promptIndex, t.messageCount])).toEqual([[1, 1, 4], [2, 5, 2]]);
+    expect(report.messages.map(m => m.index)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(report.messages[1]).toMatchObject({ uuid: 'uuid-2', turn: 1, toolNames: ['Edit'], editedFiles: ['/src/app.ts'] });
+    expect(report.messages[4].excerpt).toHaveLength(120);
+    expect(report.phases[0]).toMatchObject({ number: 1, startIndex: 1 });
+  });
+
+  it('should survive a JSON round trip', () => {
+    const report = buildAnalysisReport(session, new SessionAnalyzer(transcript().user("hi").assistant("hello").build()));
+
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
+
+describe('buildPruneReport', () => {
+  it('should list kept and dropped uuids and the tokens freed', () => {
+    const lines = transcript()
+      .user("one")
+      .assistant("two")
+      .user("three")
+      .assistant("four")
+      .build();
+    const result = new SmartPruner(lines).pruneWithIndices([3, 4], 'Keep the last turn');
+
+    const report = buildPruneReport(session, lines, result, {
+      strategyName: 'recent',
+      tokens: { before: 100, after: 40, contextWindow: 200_000 },
+      issues: [],
+      dryRun: true
+    });
+
+    expect(report).toMatchObject({
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      kind: 'prune',
+      dryRun: true,
+      written: false,
+      strategy: { name: 'recent', label: 'Keep the last turn' },
+      kept: { count: 2, uuids: ['uuid-3', 'uuid-4'] },
+      dropped: { count: 2, indices: [1, 2], uuids: ['uuid-1', 'uuid-2'] },
+      tokens: { before: 100, after: 40, freed: 60, contextWindow: 200_000 },
+      issues: []
+    });
+    expect(report).not.toHaveProperty('backup');
+  });
+
+  it('should list kept source messages apart from inserted summaries and other lines', () => {
+    const lines = transcript()
+      .user("one")
+      .assistant("two")
+      .raw(JSON.stringify({ type: 'system', uuid: 'system-1', content: 'hook output' }))
+      .user("three")
+      .assistant("four")
+      .build();
+    const result = new SmartPruner(lines).pruneWithIndices([4, 5], 'Keep the last turn', { summarizeDropped: true });
+
+    const report = buildPruneReport(session, lines, result, {
+      tokens: { before: 100, after: 40, contextWindow: 200_000 },
+      issues: [],
+      dryRun: true
+    });
+
+    expect(report.kept).toEqual({ count: 2, indices: [4, 5], uuids: ['uuid-3', 'uuid-4'] });
+    expect(report.summaryUuids).toHaveLength(1);
+    expect(report.kept.uuids).not.toContain(report.summaryUuids[0]);
+  });
+});
@@ -0,0 +1,229 @@
+import { shortPhaseName, type SessionAnalyzer } from './analyzer';
+import type { BackupInfo, BackupManifest } from './backups';
+import type { PruneResult } from './pruner';
+import type { TokenAccountant } from './tokens';
+import type { TranscriptIssue } from './verify';
+import { VERSION } from './version';
+
+// The documents `--json` prints. Bump REPORT_SCHEMA_VERSION on any change
+// that removes or renames a field or changes its meaning; adding fields is fine.
+// Line indices are 0-based positions in the transcript, where 0 is the
+// metadata line.
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+interface ReportHeader<K extends string> {
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  kind: K;
+  tool: { name: 'claude-prune'; version: string };
+}
+
+export interface SessionRef {
+  id: string;
+  file: string;
+}
+
+export interface TokenReport {
+  context: number;        // Current context size: real usage when recorded, otherwise estimated
+  source: 'usage' | 'estimate';
+  contextWindow: number;
+  windowPercent: number;
+  model?: string;
+}
+
+export interface MessageReport {
+  index: number;
+  uuid?: string;
+  type: string;
+  turn?: number;
+  tokens: number;
+  timestamp?: string;
+  isPrompt: boolean;
+  isKey: boolean;
+  isPinned: boolean;
+  toolNames: string[];
+  editedFiles: string[];
+  hasCode: boolean;
+  hasError: boolean;
+  hasThinking: boolean;
+  hasImage: boolean;
+  excerpt?: string; // Start of the prose, if any
+}
+
+export interface AnalysisReport extends ReportHeader<'analysis'> {
+  session: SessionRef & { lines: number; messages: number; turns: number };
+  tokens: TokenReport;
+  phases: {
+    number: number; // 1-based, as in `phase:N` selections
+    name: string;
+    description: string;
+    startIndex: number;
+    endIndex: number;
+    messageCount: number;
+    characteristics: { codeBlocks: number; errors: number; fileEdits: number; toolUses: number };
+  }[];
+  turns: { number: number; promptIndex?: number; startIndex: number; endIndex: number; messageCount: number }[];
+  keyMessages: number[];
+  messages: MessageReport[];
+}
+
+export interface PruneReport extends ReportHeader<'prune'> {
+  session: SessionRef;
+  dryRun: boolean;
+  written: boolean;
+  strategy: { name?: string; label: string };
+  kept: { count: number; indices: number[]; uuids: string[] };
+  summaryUuids: string[]; // Synthetic summary lines inserted in place of dropped spans
+  dropped: { count: number; indices: number[]; uuids: string[] };
+  tokens: { before: number; after: number; freed: number; contextWindow: number };
+  adjustments: Pick<PruneResult, 'pairAdjustments' | 'trimmed' | 'staleReads' | 'stripped' | 'summaries' | 'relinked' | 'pinned' | 'workingState'>;
+  issues: TranscriptIssue[]; // Problems the pruned output would introduce; non-empty means nothing was written
+  backup?: string;
+}
+
+export interface RestoreReport extends ReportHeader<'restore'> {
+  session: SessionRef;
+  dryRun: boolean;
+  written: boolean;
+  backup: { name: string; timestamp: number; size: number; manifest?: BackupManifest };
+  undoBackup?: string; // The backup of the version the restore replaced
+}
+
+function header<K extends string>(kind: K): ReportHeader<K> {
+  return { schemaVersion: REPORT_SCHEMA_VERSION, kind, tool: { name: 'claude-prune', version: VERSION } };
+}
+
+export function tokenReport(accountant: TokenAccountant): TokenReport {
+  const context = accountant.contextTokens();
+  return {
+    context,
+    source: accountant.lastUsage ? 'usage' : 'estimate',
+    contextWindow: accountant.contextWindow,
+    windowPercent: accountant.windowPercent(context),
+    ...(accountant.model ? { model: accountant.model } : {})
+  };
+}
+
+export function buildAnalysisReport(session: SessionRef, analyzer: SessionAnalyzer): AnalysisReport {
+  const analysis = analyzer.getAnalysis();
+  const messageIndices = analyzer.getMessageIndices();
+  const keySet = new Set(analysis.keyMessages);
+
+  return {
+    ...header('analysis'),
+    session: {
+      ...session,
+      lines: analyzer.getLineCount(),
+      messages: analysis.totalMessages,
+      turns: analyzer.getPromptIndices().length
+    },
+    tokens: tokenReport(analyzer.getTokenAccountant()),
+    phases: analysis.workPhases.map((phase, i) => ({
+      number: i + 1,
+      name: shortPhaseName(phase.description),
+      description: phase.description,
+      startIndex: messageIndices[phase.start],
+      endIndex: messageIndices[phase.end],
+      messageCount: phase.messageCount,
+      characteristics: phase.characteristics
+    })),
+    turns: analyzer.getTurns().map(turn => ({
+      number: turn.number,
+      ...(turn.promptIndex !== undefined ? { promptIndex: turn.promptIndex } : {}),
+      startIndex: turn.start,
+      endIndex: turn.end,
+      messageCount: turn.indices.length
+    })),
+    keyMessages: analysis.keyMessages,
+    messages: analysis.messageDetails.map(msg => ({
+      index: msg.index,
+      uuid: msg.uuid,
+      type: msg.type,
+      turn: analyzer.getTurnOf(msg.index)?.number,
+      tokens: analyzer.estimateLineTokens(msg.index),
+      timestamp: msg.timestamp,
+      isPrompt: msg.isPrompt,
+      isKey: keySet.has(msg.index),
+      isPinned: msg.isPinned,
+      toolNames: msg.toolNames,
+      editedFiles: msg.editedFiles,
+      hasCode: msg.hasCode,
+      hasError: msg.hasError,
+      hasThinking: msg.hasThinking,
+      hasImage: msg.hasImage,
+      excerpt: msg.content ? excerpt(msg.content) : undefined
+    }))
+  };
+}
+
+export function buildPruneReport(
+  session: SessionRef,
+  lines: string[],
+  result: PruneResult,
+  details: {
+    strategyName?: string;
+    tokens: { before: number; after: number; contextWindow: number };
+    issues: TranscriptIssue[];
+    dryRun: boolean;
+    backup?: BackupInfo;
+  }
+): PruneReport {
+  const uuidOf = (line: string): string | undefined => {
+    try {
+      const uuid = JSON.parse(line)?.uuid;
+      return typeof uuid === 'string' ? uuid : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const uuids = (source: string[]) => source.map(uuidOf).filter((u): u is string => u !== undefined);
+  const { before, after, contextWindow } = details.tokens;
+
+  return {
+    ...header('prune'),
+    session,
+    dryRun: details.dryRun,
+    written: details.backup !== undefined,
+    strategy: { ...(details.strategyName ? { name: details.strategyName } : {}), label: result.strategy },
+    kept: { count: result.kept, indices: result.keptIndices, uuids: uuids(result.keptIndices.map(i => lines[i])) },
+    summaryUuids: result.summaryUuids,
+    dropped: {
+      count: result.dropped,
+      indices: result.droppedIndices,
+      uuids: uuids(result.droppedIndices.map(i => lines[i]))
+    },
+    tokens: { before, after, freed: before - after, contextWindow },
+    adjustments: {
+      pairAdjustments: result.pairAdjustments,
+      trimmed: result.trimmed,
+      staleReads: result.staleReads,
+      stripped: result.stripped,
+      summaries: result.summaries,
+      relinked: result.relinked,
+      pinned: result.pinned,
+      workingState: result.workingState
+    },
+    issues: details.issues,
+    ...(details.backup ? { backup: details.backup.name } : {})
+  };
+}
+
+export function buildRestoreReport(
+  session: SessionRef,
+  backup: BackupInfo,
+  details: { dryRun: boolean; undoBackup?: BackupInfo | null; written: boolean }
+): RestoreReport {
+  return {
+    ...header('restore'),
+    session,
+    dryRun: details.dryRun,
+    written: details.written,
+    backup: { name: backup.name, timestamp: backup.timestamp, size: backup.size, manifest: backup.manifest },
+    ...(details.undoBackup ? { undoBackup: details.undoBackup.name } : {})
+  };
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 120 ? flat.slice(0, 119) + '…' : flat;
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { SessionAnalyzer, shortPhaseName } from './analyzer';
+import { evaluateSelection, parseDuration, parseSelection } from './selection';
+import { transcript } from './test-fixtures';
+
+describe('parseDuration', () => {
+  it('should convert units to milliseconds', () => {
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('1.5h')).toBe(5_400_000);
+    expect(parseDuration('30d')).toBe(30 * 86_400_000);
+    expect(parseDuration('30')).toBeNaN();
+  });
+});
+
+describe('parseSelection', () => {
+  it('should split union and difference clauses', () => {
+    expect(parseSelection('last:30 + tool:Edit, first:2 - phase:Explore')).toEqual([
+      { op: 'add', term: 'last:30' },
+      { op: 'add', term: 'tool:Edit' },
+      { op: 'add', term: 'first:2' },
+      { op: 'remove', term: 'phase:Explore' }
+    ]);
+  });
+
+  it('should keep dashes inside ranges and turn counts', () => {
+    expect(parseSelection('1-10,50-* -turns:-2')).toEqual([
+      { op: 'add', term: '1-10' },
+      { op: 'add', term: '50-*' },
+      { op: 'remove', term: 'turns:-2' }
+    ]);
+  });
+
+  it('should read a dash before another term as an operator', () => {
+    expect(parseSelection('last:30-phase:Explore-edits')).toEqual([
+      { op: 'add', term: 'last:30' },
+      { op: 'remove', term: 'phase:Explore' },
+      { op: 'remove', term: 'edits' }
+    ]);
+    expect(parseSelection('phase:code-review')).toEqual([{ op: 'add', term: 'phase:code-review' }]);
+  });
+
+  it('should read regexes whole, including operators and spaces', () => {
+    expect(parseSelection('match:/a+b, c-d/i + errors')).toEqual([
+      { op: 'add', term: 'match:/a+b, c-d/i' },
+      { op: 'add', term: 'errors' }
+    ]);
+  });
+
+  it('should reject dangling operators and unterminated regexes', () => {
+    expect(() => parseSelection('last:5 -')).toThrow('ends with an operator');
+    expect(() => parseSelection('match:/oops')).toThrow('Unterminated regex');
+    expect(() => parseSelection('  ')).toThrow('empty');
+  });
+});
+
+describe('evaluateSelection', () => {
+  // Lines 1-9; prompts at 1, 4 and 7, one minute apart
+  const lines = transcript()
+    .user("Build a login page")
+    .tool("Edit", { file_path: "/src/login.ts", old_string: "a", new_string: "b" }, "ok")
+    .user("The TODO list is wrong")
+    .tool("Bash", { command: "npm test" }, "1 failing", { isError: true })
+    .user("Ship it")
+    .tool("Read", { file_path: "/src/login.ts" }, "contents")
+    .build();
+  const analyzer = new SessionAnalyzer(lines);
+
+  it('should select turn ranges and message counts', () => {
+    expect(evaluateSelection(analyzer, '1,3-*')).toEqual([1, 2, 3, 7, 8, 9]);
+    expect(evaluateSelection(analyzer, '2-3 - 3')).toEqual([4, 5, 6]);
+    expect(evaluateSelection(analyzer, 'first:2 + last:1')).toEqual([1, 2, 3, 7, 8, 9]);
+  });
+
+  it('should select by content', () => {
+    expect(evaluateSelection(analyzer, 'tool:edit')).toEqual([1, 2, 3]);
+    expect(evaluateSelection(analyzer, 'edits + errors')).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(evaluateSelection(analyzer, 'user')).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(evaluateSelection(analyzer, 'match:/todo/i')).toEqual([4, 5, 6]);
+  });
+
+  it('should select by time and by turn', () => {
+    expect(evaluateSelection(analyzer, 'since:2m')).toEqual([7, 8, 9]);
+    expect(evaluateSelection(analyzer, 'turns:-1')).toEqual([7, 8, 9]);
+    expect(evaluateSelection(analyzer, 'turns:1')).toEqual([1, 2, 3]);
+  });
+
+  it('should subtract from everything when the expression starts with a difference', () => {
+    expect(evaluateSelection(analyzer, '-turns:-2')).toEqual([1, 2, 3]);
+    expect(evaluateSelection(analyzer, 'turns:-2 - errors')).toEqual([7, 8, 9]);
+  });
+
+  it('should never keep a reply without its prompt', () => {
+    for (const expr of ['last:2', 'first:2', 'tool:Read', 'since:1m', 'match:/failing/', 'phase:1', '-last:1']) {
+      const kept = evaluateSelection(analyzer, expr);
+      expect(analyzer.expandToTurns(kept)).toEqual(kept);
+    }
+    expect(evaluateSelection(analyzer, 'last:2')).toEqual([7, 8, 9]);
+  });
+
+  it('should select phases by name or number', () => {
+    const all = analyzer.getMessageIndices();
+    const { description } = analyzer.detectWorkPhases()[0];
+
+    expect(evaluateSelection(analyzer, 'phase:1')).toEqual(all);
+    expect(evaluateSelection(analyzer, `phase:${shortPhaseName(description)}`)).toEqual(all);
+    expect(evaluateSelection(analyzer, 'phase:1')).toEqual(analyzer.phaseIndices(analyzer.detectWorkPhases().slice(0, 1)));
+    expect(evaluateSelection(analyzer, 'phase:9')).toEqual([]);
+  });
+
+  it('should explain unknown or malformed terms', () => {
+    expect(() => evaluateSelection(analyzer, 'everything')).toThrow('Unknown selection term "everything"');
+    expect(() => evaluateSelection(analyzer, 'last:many')).toThrow('expects a whole number');
+    expect(() => evaluateSelection(analyzer, 'since:yesterday')).toThrow('expects a duration');
+    expect(() => evaluateSelection(analyzer, 'tool:')).toThrow('missing a value');
+  });
+});
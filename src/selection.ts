@@ -0,0 +1,194 @@
+import { shortPhaseName, type MessageInfo, type SessionAnalyzer } from './analyzer';
+
+// A small language for building a keep-set, e.g.
+//   last:30 + edits + first:2 - phase:Explore
+// Terms are joined with `+` or `,` (union) and `-` (difference), left to right.
+// An expression that starts with `-` subtracts from every message. Every term
+// selects whole turns: a message it matches brings its prompt and replies.
+
+export interface SelectionClause {
+  op: 'add' | 'remove';
+  term: string;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Parse "90s", "30m", "2h" or "1.5d" into milliseconds; NaN when malformed. */
+export function parseDuration(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)([smhd])\s*$/.exec(value);
+  return match ? parseFloat(match[1]) * DURATION_UNITS[match[2]] : NaN;
+}
+
+// A `-` inside a term is part of its value (`1-10`, `turns:-2`) unless a term name follows it
+const TERM_AFTER_DASH = /^-(?:(?:first|last|tool|phase|match|since|turns):|(?:errors|edits|user)(?![^\s+,-]))/;
+
+/** Split an expression into clauses. Throws on a dangling operator or an unterminated regex. */
+export function parseSelection(expr: string): SelectionClause[] {
+  const clauses: SelectionClause[] = [];
+  let op: 'add' | 'remove' = 'add';
+  let pendingOp = false;
+  let i = 0;
+
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '+' || ch === ',' || ch === '-') {
+      op = ch === '-' ? 'remove' : 'add';
+      pendingOp = true;
+      i++;
+    } else {
+      let term = '';
+      while (i < expr.length && !/[\s+,]/.test(expr[i])) {
+        if (expr[i] === '-' && TERM_AFTER_DASH.test(expr.slice(i))) break;
+        if (term === 'match:' && expr[i] === '/') {
+          const end = findRegexEnd(expr, i);
+          term += expr.slice(i, end);
+          i = end;
+        } else {
+          term += expr[i++];
+        }
+      }
+      clauses.push({ op, term });
+      op = 'add';
+      pendingOp = false;
+    }
+  }
+
+  if (pendingOp) throw new Error(`Selection "${expr}" ends with an operator`);
+  if (clauses.length === 0) throw new Error('Selection is empty');
+  return clauses;
+}
+
+/** Index just past `/regex/flags` starting at `start`. */
+function findRegexEnd(expr: string, start: number): number {
+  let i = start + 1;
+  while (i < expr.length && expr[i] !== '/') {
+    i += expr[i] === '\\' ? 2 : 1;
+  }
+  if (i >= expr.length) throw new Error(`Unterminated regex in "${expr.slice(start)}"`);
+  i++;
+  while (i < expr.length && /[a-z]/i.test(expr[i])) i++;
+  return i;
+}
+
+/** Line indices selected by `expr`, sorted. Numeric ranges are turn numbers, as shown in the UI. */
+export function evaluateSelection(analyzer: SessionAnalyzer, expr: string): number[] {
+  const clauses = parseSelection(expr);
+  const selected = new Set<number>(clauses[0].op === 'remove' ? analyzer.getMessageIndices() : []);
+
+  for (const clause of clauses) {
+    const indices = analyzer.expandToTurns(evaluateTerm(analyzer, clause.term));
+    if (clause.op === 'add') {
+      indices.forEach(i => selected.add(i));
+    } else {
+      indices.forEach(i => selected.delete(i));
+    }
+  }
+
+  return [...selected].sort((a, b) => a - b);
+}
+
+function evaluateTerm(analyzer: SessionAnalyzer, term: string): number[] {
+  const messages = analyzer.getMessageDetails();
+  const messageIndices = analyzer.getMessageIndices();
+  const where = (predicate: (msg: MessageInfo) => boolean) => messages.filter(predicate).map(m => m.index);
+
+  const range = /^(\d+)(?:-(\d+|\*))?$/.exec(term);
+  if (range) {
+    const start = parseInt(range[1]);
+    const end = range[2] === undefined ? start : range[2] === '*' ? Infinity : parseInt(range[2]);
+    return analyzer.getTurns()
+      .filter(t => t.number >= start && t.number <= end)
+      .flatMap(t => t.indices);
+  }
+
+  if (term === 'errors') return where(m => m.hasError);
+  if (term === 'user') return where(m => m.isPrompt);
+  if (term === 'edits') return where(m => m.hasFileEdit);
+
+  const colon = term.indexOf(':');
+  const name = colon === -1 ? term : term.slice(0, colon);
+  const arg = colon === -1 ? '' : term.slice(colon + 1);
+
+  if (colon !== -1 && !arg) throw new Error(`"${term}" is missing a value`);
+
+  switch (name) {
+    case 'first':
+      return messageIndices.slice(0, parseCount(term, arg));
+    case 'last': {
+      const count = parseCount(term, arg);
+      return count === 0 ? [] : messageIndices.slice(-count);
+    }
+    case 'tool':
+      return where(m => m.toolNames.some(t => t.toLowerCase() === arg.toLowerCase()));
+    case 'phase':
+      return selectPhase(analyzer, arg);
+    case 'match': {
+      const regex = parseRegex(term, arg);
+      return where(m => regex.test(m.content ?? ''));
+    }
+    case 'since':
+      return selectSince(messages, term, arg);
+    case 'turns':
+      return selectTurns(analyzer, term, arg);
+  }
+
+  throw new Error(
+    `Unknown selection term "${term}". Use turn ranges (N-M), first:N, last:N, turns:±N, phase:NAME, tool:NAME, ` +
+    `match:/re/, since:2h, errors, edits or user`
+  );
+}
+
+function parseCount(term: string, arg: string): number {
+  if (!/^\d+$/.test(arg)) throw new Error(`"${term}" expects a whole number`);
+  return parseInt(arg);
+}
+
+function parseRegex(term: string, arg: string): RegExp {
+  const match = /^\/(.*)\/([a-z]*)$/is.exec(arg);
+  if (!match) throw new Error(`"${term}" expects a regex like match:/TODO|FIXME/i`);
+  try {
+    // A global regex keeps state between test() calls
+    return new RegExp(match[1], match[2].replace('g', ''));
+  } catch (error) {
+    throw new Error(`"${term}": ${(error as Error).message}`);
+  }
+}
+
+/** `phase:Debug` matches a phase by its short name or description, `phase:2` by number. */
+function selectPhase(analyzer: SessionAnalyzer, arg: string): number[] {
+  const phases = analyzer.detectWorkPhases();
+  const wanted = arg.toLowerCase();
+
+  // The same lines the interactive phase picker keeps
+  return analyzer.phaseIndices(phases.filter((phase, i) => /^\d+$/.test(arg)
+    ? i === parseInt(arg) - 1
+    : shortPhaseName(phase.description).toLowerCase() === wanted || phase.description.toLowerCase().includes(wanted)));
+}
+
+/** Messages within a duration of the last timestamp in the session. */
+function selectSince(messages: MessageInfo[], term: string, arg: string): number[] {
+  const duration = parseDuration(arg);
+  if (isNaN(duration)) throw new Error(`"${term}" expects a duration like 30m, 2h or 1d`);
+
+  const times = messages.map(m => (m.timestamp ? Date.parse(m.timestamp) : NaN));
+  const latest = times.reduce((max, t) => (t > max ? t : max), -Infinity);
+  if (!isFinite(latest)) return [];
+
+  const from = latest - duration;
+  return messages.filter((_, i) => times[i] >= from).map(m => m.index);
+}
+
+/** `turns:-10` is the last ten user turns, `turns:3` the first three. */
+function selectTurns(analyzer: SessionAnalyzer, term: string, arg: string): number[] {
+  const match = /^(-?)(\d+)$/.exec(arg);
+  if (!match) throw new Error(`"${term}" expects a turn count like turns:-10 or turns:3`);
+
+  const count = parseInt(match[2]);
+  const turns = analyzer.getTurns();
+  const selected = match[1]
+    ? (count === 0 ? [] : turns.slice(-count))
+    : turns.filter(t => t.number <= count); // Includes any preamble before the first prompt
+  return selected.flatMap(t => t.indices);
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import fs from 'fs-extra';
+import {
+  encodeProjectPath,
+  findFirstPrompt,
+  findSessionFile,
+  formatRelativeTime,
+  listSessions
+} from './sessions';
+import { transcript } from './test-fixtures';
+
+describe('encodeProjectPath', () => {
+  it('should replace slashes with hyphens', () => {
+    expect(encodeProjectPath('/Users/alice/my-app')).toBe('-Users-alice-my-app');
+  });
+
+  it('should replace dots, underscores and spaces like Claude Code does', () => {
+    expect(encodeProjectPath('/home/bob/my_app.v2/web site')).toBe('-home-bob-my-app-v2-web-site');
+  });
+});
+
+describe('findFirstPrompt', () => {
+  it('should skip meta lines and tool results', () => {
+    const lines = transcript()
+      .user("<command-name>/clear</command-name>", { isMeta: true })
+      .tool("Read", { file_path: "/a" }, "contents")
+      .user("Add   a login\npage")
+      .build();
+
+    expect(findFirstPrompt(lines)).toBe("Add a login page");
+  });
+
+  it('should return undefined when the user never typed anything', () => {
+    expect(findFirstPrompt(transcript().assistant("hello").build())).toBeUndefined();
+  });
+});
+
+describe('listSessions', () => {
+  let root: string;
+
+  const writeSession = async (project: string, id: string, lines: string[], mtime: Date) => {
+    const dir = join(root, encodeProjectPath(project));
+    await fs.ensureDir(dir);
+    const file = join(dir, `${id}.jsonl`);
+    await fs.writeFile(file, lines.join('\n') + '\n');
+    await fs.utimes(file, mtime, mtime);
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'claude-prune-sessions-'));
+    await writeSession('/work/api', 'older', transcript('/work/api').user("Fix the rate limiter").assistant("ok").build(), new Date(1000_000));
+    await writeSession('/work/api', 'newer', transcript('/work/api').user("Write docs").build(), new Date(2000_000));
+    await writeSession('/work/web_app', 'other', transcript('/work/web_app').user("Style the navbar").build(), new Date(1500_000));
+    await fs.ensureDir(join(root, encodeProjectPath('/work/api'), 'prune-backup'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('should list sessions across projects, newest first', async () => {
+    const sessions = await listSessions({ root });
+
+    expect(sessions.map(s => s.id)).toEqual(['newer', 'other', 'older']);
+  });
+
+  it('should summarise each session', async () => {
+    const [, , older] = await listSessions({ root });
+
+    expect(older).toMatchObject({
+      id: 'older',
+      projectDir: '-work-api',
+      projectPath: '/work/api',
+      messageCount: 2,
+      firstPrompt: 'Fix the rate limiter'
+    });
+    expect(older.estimatedTokens).toBeGreaterThan(0);
+  });
+
+  it('should filter by project path', async () => {
+    const sessions = await listSessions({ root, project: '/work/web_app' });
+
+    expect(sessions.map(s => s.id)).toEqual(['other']);
+  });
+
+  it('should accept relative project paths and trailing slashes', async () => {
+    expect((await listSessions({ root, project: relative(process.cwd(), '/work/web_app') })).map(s => s.id)).toEqual(['other']);
+    expect((await listSessions({ root, project: '/work/web_app/' })).map(s => s.id)).toEqual(['other']);
+  });
+
+  it('should only summarise the newest sessions up to the limit', async () => {
+    expect((await listSessions({ root, limit: 2 })).map(s => s.id)).toEqual(['newer', 'other']);
+    expect((await listSessions({ root, search: 'rate', limit: 1 })).map(s => s.id)).toEqual(['older']);
+  });
+
+  it('should filter by search text', async () => {
+    const sessions = await listSessions({ root, search: 'RATE' });
+
+    expect(sessions.map(s => s.id)).toEqual(['older']);
+  });
+
+  it('should return nothing when the projects directory is missing', async () => {
+    expect(await listSessions({ root: join(root, 'missing') })).toEqual([]);
+  });
+
+  it('should find a session in its own project first, then anywhere', async () => {
+    expect(await findSessionFile('older', '/work/api', root)).toBe(join(root, '-work-api', 'older.jsonl'));
+    expect(await findSessionFile('other', '/work/api', root)).toBe(join(root, '-work-web-app', 'other.jsonl'));
+    expect(await findSessionFile('nope', '/work/api', root)).toBeNull();
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const now = new Date('2025-01-10T12:00:00Z');
+
+  it('should format recent times relatively', () => {
+    expect(formatRelativeTime(new Date('2025-01-10T11:59:30Z'), now)).toBe('just now');
+    expect(formatRelativeTime(new Date('2025-01-10T11:15:00Z'), now)).toBe('45m ago');
+    expect(formatRelativeTime(new Date('2025-01-10T07:00:00Z'), now)).toBe('5h ago');
+    expect(formatRelativeTime(new Date('2025-01-07T12:00:00Z'), now)).toBe('3d ago');
+  });
+});
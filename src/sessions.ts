@@ -0,0 +1,159 @@
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import fs from 'fs-extra';
+import { SessionAnalyzer } from './analyzer';
+import { getText } from './content';
+
+export const PROJECTS_DIR = join(homedir(), '.claude', 'projects');
+
+export interface SessionSummary {
+  id: string;
+  file: string;
+  projectDir: string;   // Mangled directory name under ~/.claude/projects
+  projectPath?: string; // Real working directory, as recorded in the transcript
+  modified: Date;
+  messageCount: number;
+  estimatedTokens: number;
+  firstPrompt?: string;
+}
+
+export interface SessionFilter {
+  project?: string;
+  search?: string;
+  root?: string;
+  limit?: number; // Summarise only this many of the newest matching sessions
+}
+
+/**
+ * Claude Code names project directories after the working directory with
+ * every non-alphanumeric character replaced by "-", so `/a/my_app.v2`
+ * becomes `-a-my-app-v2`. Relative paths are resolved against the current
+ * directory and trailing slashes dropped first, as a working directory has none.
+ */
+export function encodeProjectPath(path: string): string {
+  return resolve(path).replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+export function projectDirFor(path: string, root: string = PROJECTS_DIR): string {
+  return join(root, encodeProjectPath(path));
+}
+
+export function backupDirFor(sessionFile: string): string {
+  return join(dirname(sessionFile), 'prune-backup');
+}
+
+/** First thing the user actually typed, skipping meta lines and tool results. */
+export function findFirstPrompt(lines: string[]): string | undefined {
+  for (const line of lines) {
+    try {
+      const obj = JSON.parse(line);
+      if (obj.type !== 'user' || obj.isMeta || obj.isCompactSummary) continue;
+
+      const text = getText(obj).trim();
+      if (text && !text.startsWith('<')) {
+        return text.replace(/\s+/g, ' ');
+      }
+    } catch {
+      // Not JSON
+    }
+  }
+  return undefined;
+}
+
+export async function readSessionSummary(file: string): Promise<SessionSummary> {
+  const [raw, stat] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+  const lines = raw.split(/\r?\n/).filter(Boolean);
+  const analyzer = new SessionAnalyzer(lines);
+
+  let projectPath: string | undefined;
+  for (const line of lines) {
+    try {
+      const { cwd } = JSON.parse(line);
+      if (typeof cwd === 'string') {
+        projectPath = cwd;
+        break;
+      }
+    } catch {
+      // Not JSON
+    }
+  }
+
+  return {
+    id: basename(file, '.jsonl'),
+    file,
+    projectDir: basename(dirname(file)),
+    projectPath,
+    modified: stat.mtime,
+    messageCount: analyzer.getMessageIndices().length,
+    estimatedTokens: analyzer.estimateTokens(),
+    firstPrompt: findFirstPrompt(lines)
+  };
+}
+
+/**
+ * Sessions under the projects directory, newest first. Transcripts are
+ * ordered by modification time before any is read, so with a `limit` only the
+ * sessions that make the cut are summarised.
+ */
+export async function listSessions(filter: SessionFilter = {}): Promise<SessionSummary[]> {
+  const root = filter.root ?? PROJECTS_DIR;
+  if (!(await fs.pathExists(root))) return [];
+
+  const projectDirs = filter.project
+    ? [encodeProjectPath(filter.project)]
+    : await fs.readdir(root);
+
+  const files: { file: string; mtimeMs: number }[] = [];
+  for (const dir of projectDirs) {
+    const dirPath = join(root, dir);
+    if (!(await fs.pathExists(dirPath)) || !(await fs.stat(dirPath)).isDirectory()) continue;
+
+    for (const name of await fs.readdir(dirPath)) {
+      if (!name.endsWith('.jsonl')) continue;
+      const file = join(dirPath, name);
+      files.push({ file, mtimeMs: (await fs.stat(file)).mtimeMs });
+    }
+  }
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const needle = filter.search?.toLowerCase();
+  const limit = filter.limit ?? Infinity;
+  const sessions: SessionSummary[] = [];
+  for (const { file } of files) {
+    if (sessions.length >= limit) break;
+    const summary = await readSessionSummary(file);
+    if (needle && ![summary.id, summary.firstPrompt, summary.projectPath, summary.projectDir]
+      .some(field => field?.toLowerCase().includes(needle))) continue;
+    sessions.push(summary);
+  }
+  return sessions;
+}
+
+/**
+ * Find the transcript for a session id, looking in the given project first
+ * and then across every project.
+ */
+export async function findSessionFile(
+  sessionId: string,
+  project: string,
+  root: string = PROJECTS_DIR
+): Promise<string | null> {
+  const direct = join(projectDirFor(project, root), `${sessionId}.jsonl`);
+  if (await fs.pathExists(direct)) return direct;
+
+  if (!(await fs.pathExists(root))) return null;
+  for (const dir of await fs.readdir(root)) {
+    const candidate = join(root, dir, `${sessionId}.jsonl`);
+    if (await fs.pathExists(candidate)) return candidate;
+  }
+  return null;
+}
+
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.round((now.getTime() - date.getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 86400 * 30) return `${Math.floor(seconds / 86400)}d ago`;
+  return date.toLocaleDateString();
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import fs from 'fs-extra';
+import { SessionAnalyzer } from './analyzer';
+import { CONFIG_FILE, createRegistry, loadCustomStrategies } from './strategies';
+import { transcript } from './test-fixtures';
+
+function buildAnalyzer(turns: number) {
+  const builder = transcript();
+  for (let i = 0; i < turns; i++) {
+    builder.user(`request ${i}`).assistant(`reply ${i}`);
+  }
+  return new SessionAnalyzer(builder.build());
+}
+
+describe('built-in strategies', () => {
+  const registry = createRegistry();
+
+  it('should register recent, bookends, smart and keep', () => {
+    expect(registry.names()).toEqual(['recent', 'bookends', 'smart', 'keep']);
+  });
+
+  it('should keep the newest share of messages with recent', () => {
+    const analyzer = buildAnalyzer(10);
+    const recent = registry.require('recent');
+
+    expect(recent.getIndicesToKeep(analyzer)).toEqual([13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(recent.getIndicesToKeep(analyzer, { ratio: 0.15 })).toEqual([17, 18, 19, 20]);
+    expect(recent.label!(analyzer)).toBe('Keep last 4 turns (8 messages)');
+  });
+
+  it('should extend a cut back to the prompt of its turn with recent', () => {
+    const analyzer = buildAnalyzer(10);
+
+    // 5% of 20 messages is the final reply alone; its prompt comes with it
+    expect(registry.require('recent').getIndicesToKeep(analyzer, { ratio: 0.05 })).toEqual([19, 20]);
+  });
+
+  it('should count turns in bookends', () => {
+    const analyzer = buildAnalyzer(10);
+
+    expect(registry.require('bookends').getIndicesToKeep(analyzer, { first: 1, last: 2 })).toEqual([1, 2, 17, 18, 19, 20]);
+    expect(registry.require('bookends').getIndicesToKeep(analyzer, { first: 2, last: 0 })).toEqual([1, 2, 3, 4]);
+    expect(registry.require('bookends').label!(analyzer, { first: 1, last: 2 })).toBe('Keep first 1 + last 2 turns');
+  });
+
+  it('should keep whole turns around important messages with smart', () => {
+    const lines = transcript()
+      .user("hi")
+      .assistant("ok")
+      .tool("Edit", { file_path: "/src/a.ts", old_string: "a", new_string: "b" }, "ok")
+      .user("thanks")
+      .build();
+    const analyzer = new SessionAnalyzer(lines);
+
+    expect(registry.require('smart').getIndicesToKeep(analyzer)).toEqual([1, 2, 3, 4, 5]); // Small sessions are all key
+    expect(registry.require('smart').getIndicesToKeep(analyzer, { ratio: 0.5 })).toEqual([1, 2, 3, 4]);
+    expect(registry.require('smart').label!(analyzer, { ratio: 0.5 })).toBe('Keep 1 highest-scoring turn (4 messages)');
+  });
+
+  it('should cut at the turn of the Nth-last assistant message with keep', () => {
+    const analyzer = buildAnalyzer(5);
+    const keep = registry.require('keep');
+
+    expect(keep.getIndicesToKeep(analyzer, { keep: 2 })).toEqual([7, 8, 9, 10]);
+    expect(keep.interactive).toBe(false);
+    expect(() => keep.getIndicesToKeep(analyzer)).toThrow('--keep');
+  });
+
+  it('should list known names for an unknown strategy', () => {
+    expect(() => registry.require('nope')).toThrow('Unknown strategy "nope". Available: recent, bookends, smart, keep');
+  });
+
+  it('should refuse duplicate names', () => {
+    expect(() => registry.register({ name: 'smart', description: '', getIndicesToKeep: () => [] })).toThrow('already registered');
+  });
+});
+
+describe('loadCustomStrategies', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'claude-prune-strategies-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should register strategies from modules listed in the config', async () => {
+    await fs.outputFile(join(dir, 'prune/first-only.mjs'),
+      `export default { name: 'first-only', getIndicesToKeep: a => a.getMessageIndices().slice(0, 1) };\n`);
+    await fs.writeJson(join(dir, CONFIG_FILE), { strategies: ['./prune/first-only.mjs'] });
+    const registry = createRegistry();
+
+    const added = await loadCustomStrategies(registry, dir);
+
+    expect(added).toEqual(['first-only']);
+    expect(registry.require('first-only').description).toBe('first-only');
+    expect(registry.require('first-only').getIndicesToKeep(buildAnalyzer(2))).toEqual([1]);
+  });
+
+  it('should load TypeScript modules', async () => {
+    await fs.outputFile(join(dir, 'prune/last-only.ts'), [
+      `import type { PruneStrategy } from 'claude-prune';`,
+      `const strategy: PruneStrategy = { name: 'last-only', getIndicesToKeep: a => a.getMessageIndices().slice(-1) };`,
+      `export default strategy;`
+    ].join('\n'));
+    await fs.writeJson(join(dir, CONFIG_FILE), { strategies: ['./prune/last-only.ts'] });
+    const registry = createRegistry();
+
+    expect(await loadCustomStrategies(registry, dir)).toEqual(['last-only']);
+    expect(registry.require('last-only').getIndicesToKeep(buildAnalyzer(2))).toEqual([4]);
+    expect(await fs.readdir(join(dir, 'prune'))).toEqual(['last-only.ts']);
+  });
+
+  it('should do nothing without a config file', async () => {
+    expect(await loadCustomStrategies(createRegistry(), dir)).toEqual([]);
+  });
+
+  it('should reject modules that do not export a strategy', async () => {
+    await fs.outputFile(join(dir, 'bad.mjs'), `export default { name: 'bad' };\n`);
+    await fs.writeJson(join(dir, CONFIG_FILE), { strategies: ['bad.mjs'] });
+
+    await expect(loadCustomStrategies(createRegistry(), dir)).rejects.toThrow('expected a default export');
+  });
+});
@@ -0,0 +1,219 @@
+import { basename, dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import fs from 'fs-extra';
+import type { SessionAnalyzer } from './analyzer';
+import type { PruneOptions, PruneStrategy } from './types';
+
+export const CONFIG_FILE = '.claude-prune.json';
+
+// Share of messages the recent strategy keeps when no ratio is given
+const DEFAULT_RECENT_RATIO = 0.4;
+
+export class StrategyRegistry {
+  private strategies = new Map<string, PruneStrategy>();
+
+  public register(strategy: PruneStrategy): void {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`Strategy "${strategy.name}" is already registered`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  public get(name: string): PruneStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  /** Look up a strategy, failing with the list of known names. */
+  public require(name: string): PruneStrategy {
+    const strategy = this.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown strategy "${name}". Available: ${this.names().join(', ')}`);
+    }
+    return strategy;
+  }
+
+  public list(): PruneStrategy[] {
+    return [...this.strategies.values()];
+  }
+
+  public names(): string[] {
+    return [...this.strategies.keys()];
+  }
+}
+
+// Built-in strategies keep whole turns, so a kept block always opens with
+// the prompt that its replies and tool calls answer.
+
+const recent: PruneStrategy = {
+  name: 'recent',
+  description: 'Keep the most recent turns only',
+  label: (analyzer, options = {}) => describeKept(analyzer, recentIndices(analyzer, options), 'last'),
+  getIndicesToKeep: (analyzer, options = {}) => recentIndices(analyzer, options)
+};
+
+/** The newest `ratio` share of messages, extended back to the start of its first turn. */
+function recentIndices(analyzer: SessionAnalyzer, options: PruneOptions): number[] {
+  const messageIndices = analyzer.getMessageIndices();
+  const ratio = options.ratio ?? DEFAULT_RECENT_RATIO;
+  return analyzer.expandToTurns(messageIndices.slice(Math.floor(messageIndices.length * (1 - ratio))));
+}
+
+const bookends: PruneStrategy = {
+  name: 'bookends',
+  description: 'Keep the opening turns and the most recent ones',
+  label: (analyzer, options = {}) => {
+    const { first, last } = bookendCounts(analyzer, options);
+    return `Keep first ${first} + last ${last} turns`;
+  },
+  getIndicesToKeep: (analyzer, options = {}) => {
+    const turns = analyzer.getTurns();
+    const { first, last } = bookendCounts(analyzer, options);
+    const kept = new Set([
+      // A preamble before the first prompt counts as part of the opening
+      ...(first > 0 ? turns.filter(t => t.number <= first) : []),
+      ...(last > 0 ? turns.slice(-last) : [])
+    ]);
+    return [...kept].flatMap(t => t.indices).sort((a, b) => a - b);
+  }
+};
+
+function bookendCounts(analyzer: SessionAnalyzer, options: PruneOptions): { first: number; last: number } {
+  const total = analyzer.getPromptIndices().length;
+  return {
+    first: options.first ?? Math.min(2, Math.floor(total * 0.1)),
+    last: options.last ?? Math.min(10, Math.max(1, Math.ceil(total * 0.3)))
+  };
+}
+
+const smart: PruneStrategy = {
+  name: 'smart',
+  description: 'Keep the turns with important messages: code, errors and file edits',
+  label: (analyzer, options = {}) => options.ratio === undefined
+    ? describeKept(analyzer, smartIndices(analyzer, options), 'important')
+    : describeKept(analyzer, smartIndices(analyzer, options), 'highest-scoring'),
+  getIndicesToKeep: (analyzer, options = {}) => smartIndices(analyzer, options)
+};
+
+/** Turns holding a key message, or with a ratio, that share of turns ranked by their best message. */
+function smartIndices(analyzer: SessionAnalyzer, options: PruneOptions): number[] {
+  if (options.ratio === undefined) return analyzer.expandToTurns(analyzer.findKeyMessages());
+
+  const scores = analyzer.getMessageScores();
+  const turns = analyzer.getTurns().map(turn => ({
+    turn,
+    score: Math.max(...turn.indices.map(i => scores.get(i) ?? 0))
+  }));
+  const count = Math.round(turns.length * options.ratio);
+  return turns
+    .sort((a, b) => b.score - a.score || b.turn.start - a.turn.start)
+    .slice(0, count)
+    .flatMap(({ turn }) => turn.indices)
+    .sort((a, b) => a - b);
+}
+
+const keep: PruneStrategy = {
+  name: 'keep',
+  description: 'Keep everything from the turn of the Nth-last assistant message on (legacy -k)',
+  interactive: false,
+  label: (_, options = {}) => `Keep last ${options.keep} assistant messages`,
+  getIndicesToKeep: (analyzer, options = {}) => {
+    if (options.keep === undefined || isNaN(options.keep)) {
+      throw new Error('The keep strategy needs a --keep count');
+    }
+    const assistantIndices = analyzer.getAssistantIndices();
+    const messageIndices = analyzer.getMessageIndices();
+    if (options.keep <= 0) return [];
+    if (assistantIndices.length <= options.keep) return messageIndices;
+
+    // Cut at the start of the turn holding the Nth-last assistant message
+    const cutAt = assistantIndices[assistantIndices.length - options.keep];
+    const cutFrom = analyzer.getTurnOf(cutAt)?.start ?? cutAt;
+    return messageIndices.filter(idx => idx >= cutFrom);
+  }
+};
+
+function describeKept(analyzer: SessionAnalyzer, indices: number[], kind: 'last' | 'important' | 'highest-scoring'): string {
+  const turns = new Set(indices.map(i => analyzer.getTurnOf(i)));
+  const plural = turns.size === 1 ? '' : 's';
+  const counts = `${turns.size} ${kind === 'last' ? '' : kind + ' '}turn${plural} (${indices.length} messages)`;
+  return kind === 'last' ? `Keep last ${counts}` : `Keep ${counts}`;
+}
+
+export const BUILTIN_STRATEGIES: PruneStrategy[] = [recent, bookends, smart, keep];
+
+export function createRegistry(): StrategyRegistry {
+  const registry = new StrategyRegistry();
+  BUILTIN_STRATEGIES.forEach(s => registry.register(s));
+  return registry;
+}
+
+function isStrategy(value: any): value is PruneStrategy {
+  return typeof value?.name === 'string' && typeof value?.getIndicesToKeep === 'function';
+}
+
+/**
+ * Register the strategies listed in `.claude-prune.json` under `projectDir`:
+ * `{ "strategies": ["./prune/keep-tests.mjs"] }`. Each module exports a
+ * strategy (or an array of them) as its default export; `.ts` modules are
+ * transpiled first. Paths are relative to the config file. Returns the names
+ * that were added.
+ */
+export async function loadCustomStrategies(registry: StrategyRegistry, projectDir: string): Promise<string[]> {
+  const configFile = join(projectDir, CONFIG_FILE);
+  if (!(await fs.pathExists(configFile))) return [];
+
+  let config: any;
+  try {
+    config = await fs.readJson(configFile);
+  } catch (error) {
+    throw new Error(`${configFile}: ${(error as Error).message}`);
+  }
+
+  const modules = config?.strategies ?? [];
+  if (!Array.isArray(modules) || !modules.every(m => typeof m === 'string')) {
+    throw new Error(`${configFile}: "strategies" must be an array of module paths`);
+  }
+
+  const added: string[] = [];
+  for (const modulePath of modules) {
+    const file = resolve(dirname(configFile), modulePath);
+    const mod = await importStrategyModule(file);
+    const exported = mod.default ?? mod.strategies;
+    const candidates = Array.isArray(exported) ? exported : [exported];
+
+    if (candidates.length === 0 || !candidates.every(isStrategy)) {
+      throw new Error(`${file}: expected a default export with "name" and "getIndicesToKeep"`);
+    }
+    for (const strategy of candidates) {
+      registry.register({ ...strategy, description: strategy.description ?? strategy.name });
+      added.push(strategy.name);
+    }
+  }
+
+  return added;
+}
+
+/**
+ * Import a strategy module. Node can't import TypeScript, so `.ts` modules
+ * are transpiled with the `typescript` peer dependency into a hidden sibling
+ * file, which keeps their relative imports of JavaScript modules working.
+ */
+async function importStrategyModule(file: string): Promise<any> {
+  if (!/\.[cm]?ts$/.test(file)) return import(pathToFileURL(file).href);
+
+  const ts = await import('typescript').then(mod => mod.default).catch(() => {
+    throw new Error(`${file}: loading TypeScript strategies needs the "typescript" package installed`);
+  });
+  const { outputText } = ts.transpileModule(await fs.readFile(file, 'utf8'), {
+    fileName: file,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  });
+
+  const temp = join(dirname(file), `.${basename(file)}.${process.pid}.mjs`);
+  await fs.writeFile(temp, outputText);
+  try {
+    return await import(pathToFileURL(temp).href);
+  } finally {
+    await fs.remove(temp);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildSummaryLine, digestSpan, renderSpanDigest } from './summary';
+import { transcript } from './test-fixtures';
+
+describe('digestSpan', () => {
+  const span = () => transcript()
+    .user("Add a CSV export to the reports page")
+    .tool("Edit", { file_path: "/src/reports.ts", old_string: "a", new_string: "b" }, "ok")
+    .tool("Bash", { command: "npm test" }, "Error: expected 3 rows\n  at reports.test.ts:12", { isError: true })
+    .tool("Edit", { file_path: "/src/reports.ts", old_string: "b", new_string: "c" }, "ok")
+    .user("Never touch the migrations folder")
+    .build()
+    .slice(1)
+    .map(line => JSON.parse(line));
+
+  it('should collect files, commands, errors and user instructions', () => {
+    const digest = digestSpan(span());
+
+    expect(digest.messageCount).toBe(8);
+    expect(digest.filesEdited).toEqual(["/src/reports.ts"]);
+    expect(digest.commands).toEqual(["npm test"]);
+    expect(digest.errors).toEqual(["Error: expected 3 rows"]);
+    expect(digest.instructions).toEqual([
+      "Add a CSV export to the reports page",
+      "Never touch the migrations folder"
+    ]);
+    expect(digest.firstTimestamp).toBe("2025-01-01T10:01:00.000Z");
+  });
+
+  it('should render a readable digest and cap long lists', () => {
+    const text = renderSpanDigest({
+      messageCount: 40,
+      filesEdited: [],
+      commands: Array.from({ length: 12 }, (_, i) => `cmd ${i}`),
+      errors: [],
+      instructions: ["x".repeat(300)]
+    });
+
+    expect(text).toContain("[claude-prune] 40 earlier message(s) were pruned here.");
+    expect(text).toContain("Commands run:\n- cmd 0");
+    expect(text).toContain("- … and 2 more");
+    expect(text).not.toContain("Files edited");
+    expect(text).toContain("x".repeat(199) + "…");
+  });
+});
+
+describe('buildSummaryLine', () => {
+  it('should build a compact-summary user line from the first dropped message', () => {
+    const objs = transcript().user("hello").assistant("hi").build().slice(1).map(l => JSON.parse(l));
+
+    const { uuid, obj } = buildSummaryLine(objs);
+
+    expect(obj).toMatchObject({
+      type: "user",
+      uuid,
+      parentUuid: null,
+      isCompactSummary: true,
+      sessionId: objs[0].sessionId,
+      timestamp: objs[0].timestamp
+    });
+    expect(obj.message.content).toContain("Key user instructions:\n- hello");
+  });
+});
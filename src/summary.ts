@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { getEditedFile, getText, getToolResultText, getToolResults, getToolUses } from './content';
+
+const MAX_ITEMS = 10;
+const MAX_ITEM_LENGTH = 200;
+
+export interface SpanDigest {
+  messageCount: number;
+  filesEdited: string[];
+  commands: string[];
+  errors: string[];
+  instructions: string[];
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+}
+
+/** Collect the breadcrumbs worth keeping from a run of dropped messages. */
+export function digestSpan(objs: any[]): SpanDigest {
+  const filesEdited = new Set<string>();
+  const commands: string[] = [];
+  const errors: string[] = [];
+  const instructions: string[] = [];
+
+  for (const obj of objs) {
+    for (const use of getToolUses(obj)) {
+      const file = getEditedFile(use);
+      if (file) filesEdited.add(file);
+      if (use.name === 'Bash' && typeof use.input?.command === 'string') {
+        commands.push(use.input.command);
+      }
+    }
+
+    for (const result of getToolResults(obj)) {
+      if (!result.is_error) continue;
+      const firstLine = getToolResultText(result).split('\n').find(l => l.trim());
+      if (firstLine) errors.push(firstLine.trim());
+    }
+
+    if (obj.type === 'user' && !obj.isMeta && !obj.isCompactSummary && getToolResults(obj).length === 0) {
+      const text = getText(obj).trim();
+      if (text && !text.startsWith('<')) instructions.push(text.replace(/\s+/g, ' '));
+    }
+  }
+
+  const timestamps = objs.map(o => o.timestamp).filter((t): t is string => typeof t === 'string');
+
+  return {
+    messageCount: objs.length,
+    filesEdited: [...filesEdited],
+    commands,
+    errors,
+    instructions,
+    firstTimestamp: timestamps[0],
+    lastTimestamp: timestamps[timestamps.length - 1]
+  };
+}
+
+export function renderSpanDigest(digest: SpanDigest): string {
+  const when = digest.firstTimestamp && digest.lastTimestamp
+    ? ` (${digest.firstTimestamp} – ${digest.lastTimestamp})`
+    : '';
+  const parts = [
+    `[claude-prune] ${digest.messageCount} earlier message(s) were pruned here${when}. ` +
+    `This is an extractive summary of that span, not the full history.`
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    const shown = items.slice(0, MAX_ITEMS).map(item =>
+      `- ${item.length > MAX_ITEM_LENGTH ? item.slice(0, MAX_ITEM_LENGTH - 1) + '…' : item}`
+    );
+    if (items.length > MAX_ITEMS) shown.push(`- … and ${items.length - MAX_ITEMS} more`);
+    parts.push(`${title}:\n${shown.join('\n')}`);
+  };
+
+  section('Key user instructions', digest.instructions);
+  section('Files edited', digest.filesEdited);
+  section('Commands run', digest.commands);
+  section('Errors seen', digest.errors);
+
+  return parts.join('\n\n');
+}
+
+/**
+ * A synthetic user line standing in for a dropped span, flagged like the
+ * summaries Claude Code writes after /compact. `parentUuid` is filled in by
+ * the pruner when it relinks the chain.
+ */
+export function buildSummaryLine(objs: any[]): { uuid: string; obj: any } {
+  const first = objs[0] ?? {};
+  const uuid = randomUUID();
+
+  return {
+    uuid,
+    obj: {
+      parentUuid: first.parentUuid ?? null,
+      isSidechain: false,
+      type: 'user',
+      uuid,
+      sessionId: first.sessionId,
+      cwd: first.cwd,
+      version: first.version,
+      timestamp: first.timestamp,
+      isCompactSummary: true,
+      message: {
+        role: 'user',
+        content: renderSpanDigest(digestSpan(objs))
+      }
+    }
+  };
+}
@@ -0,0 +1,91 @@
+// Builders for realistic Claude Code transcript lines, shared by the tests.
+
+const SESSION_ID = '00000000-0000-4000-8000-000000000000';
+const START = Date.parse('2025-01-01T10:00:00.000Z');
+
+export class TranscriptBuilder {
+  private lines: string[] = [];
+  private lastUuid: string | null = null;
+  private counter = 0;
+  private toolCounter = 0;
+
+  constructor(private cwd: string = '/Users/alice/my-app') {
+    this.lines.push(JSON.stringify({ type: 'summary', summary: 'Test session', leafUuid: 'leaf' }));
+  }
+
+  public user(content: string | object[], extra: object = {}): this {
+    return this.push('user', { role: 'user', content }, extra);
+  }
+
+  public assistant(content: string | object[], extra: object = {}): this {
+    const blocks = typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+    return this.push('assistant', {
+      id: `msg_${this.counter + 1}`,
+      role: 'assistant',
+      model: 'claude-sonnet-4-20250514',
+      content: blocks
+    }, extra);
+  }
+
+  /** An assistant tool_use line followed by the user line carrying its tool_result. */
+  public tool(name: string, input: object, result: string | object[], opts: { isError?: boolean } = {}): this {
+    const id = `toolu_${String(++this.toolCounter).padStart(4, '0')}`;
+    this.assistant([{ type: 'tool_use', id, name, input }]);
+    return this.user([{
+      type: 'tool_result',
+      tool_use_id: id,
+      content: result,
+      ...(opts.isError ? { is_error: true } : {})
+    }]);
+  }
+
+  public thinking(text: string): this {
+    return this.assistant([{ type: 'thinking', thinking: text, signature: 'sig' }]);
+  }
+
+  public image(mediaType: string = 'image/png', bytes: number = 3000): this {
+    return this.user([
+      { type: 'image', source: { type: 'base64', media_type: mediaType, data: 'A'.repeat(bytes) } },
+      { type: 'text', text: 'see screenshot' }
+    ]);
+  }
+
+  /** Attach an API usage block to the most recent line. */
+  public withUsage(usage: object, model?: string): this {
+    const obj = JSON.parse(this.lines[this.lines.length - 1]);
+    obj.message.usage = usage;
+    if (model) obj.message.model = model;
+    this.lines[this.lines.length - 1] = JSON.stringify(obj);
+    return this;
+  }
+
+  public raw(line: string): this {
+    this.lines.push(line);
+    return this;
+  }
+
+  public build(): string[] {
+    return [...this.lines];
+  }
+
+  private push(type: string, message: object, extra: object): this {
+    const uuid = `uuid-${++this.counter}`;
+    this.lines.push(JSON.stringify({
+      parentUuid: this.lastUuid,
+      isSidechain: false,
+      type,
+      uuid,
+      sessionId: SESSION_ID,
+      cwd: this.cwd,
+      timestamp: new Date(START + this.counter * 60_000).toISOString(),
+      message,
+      ...extra
+    }));
+    this.lastUuid = uuid;
+    return this;
+  }
+}
+
+export function transcript(cwd?: string): TranscriptBuilder {
+  return new TranscriptBuilder(cwd);
+}
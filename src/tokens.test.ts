@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { TokenAccountant, contextWindowFor, estimateLineTokens } from './tokens';
+import { SmartPruner } from './pruner';
+import { transcript } from './test-fixtures';
+
+describe('contextWindowFor', () => {
+  it('should default to 200k', () => {
+    expect(contextWindowFor(undefined)).toBe(200_000);
+    expect(contextWindowFor('claude-sonnet-4-20250514')).toBe(200_000);
+    expect(contextWindowFor('some-other-model')).toBe(200_000);
+  });
+
+  it('should recognise 1M context models', () => {
+    expect(contextWindowFor('claude-sonnet-4-20250514[1m]')).toBe(1_000_000);
+  });
+});
+
+describe('estimateLineTokens', () => {
+  it('should count message content only', () => {
+    const [, line] = transcript().user("a".repeat(400)).build();
+
+    expect(estimateLineTokens(line)).toBe(100);
+  });
+
+  it('should count nothing for non-message, sidechain and non-JSON lines', () => {
+    const [, sidechain] = transcript().user("a".repeat(400), { isSidechain: true }).build();
+
+    expect(estimateLineTokens(JSON.stringify({ type: "summary", summary: "x".repeat(400) }))).toBe(0);
+    expect(estimateLineTokens(sidechain)).toBe(0);
+    expect(estimateLineTokens("not json")).toBe(0);
+  });
+});
+
+describe('TokenAccountant', () => {
+  const usage = { input_tokens: 10, cache_creation_input_tokens: 2000, cache_read_input_tokens: 20000, output_tokens: 500 };
+
+  it('should fall back to estimates without usage data', () => {
+    const lines = transcript().user("a".repeat(400)).assistant("b".repeat(800)).build();
+    const accountant = new TokenAccountant(lines);
+
+    expect(accountant.lastUsage).toBeNull();
+    expect(accountant.overhead).toBe(0);
+    expect(accountant.contextTokens()).toBe(accountant.lineTokens(1) + accountant.lineTokens(2));
+  });
+
+  it('should take the context size from the last assistant usage', () => {
+    const lines = transcript()
+      .user("hello")
+      .assistant("hi").withUsage({ input_tokens: 5, output_tokens: 5 })
+      .user("more")
+      .assistant("sure").withUsage(usage)
+      .build();
+    const accountant = new TokenAccountant(lines);
+
+    expect(accountant.lastUsage).toMatchObject({ lineIndex: 4, cacheReadTokens: 20000, total: 22510 });
+    expect(accountant.contextTokens()).toBe(22510);
+  });
+
+  it('should carry unexplained usage as fixed overhead', () => {
+    const lines = transcript().user("a".repeat(400)).assistant("b".repeat(400)).withUsage(usage).build();
+    const accountant = new TokenAccountant(lines);
+
+    expect(accountant.overhead).toBe(22510 - accountant.lineTokens(1) - accountant.lineTokens(2));
+    expect(accountant.projectIndices([0, 2])).toBe(accountant.overhead + accountant.lineTokens(2));
+  });
+
+  it('should scale estimates down when they exceed real usage', () => {
+    const lines = transcript()
+      .user("a".repeat(4000))
+      .assistant("b".repeat(4000)).withUsage({ input_tokens: 1000, output_tokens: 0 })
+      .build();
+    const accountant = new TokenAccountant(lines);
+
+    expect(accountant.overhead).toBe(0);
+    expect(accountant.contextTokens()).toBe(1000);
+    expect(accountant.lineTokens(1)).toBeLessThan(estimateLineTokens(lines[1]));
+    expect(accountant.charsToTokens(4000)).toBe(accountant.lineTokens(1));
+  });
+
+  it('should project rewritten lines and report window percentages', () => {
+    const lines = transcript()
+      .user("a".repeat(4000))
+      .assistant("ok").withUsage(usage, "claude-opus-4-20250514")
+      .build();
+    const accountant = new TokenAccountant(lines);
+
+    expect(accountant.model).toBe("claude-opus-4-20250514");
+    expect(accountant.projectLines([lines[0], lines[2]])).toBe(accountant.overhead + accountant.lineTokens(2));
+    expect(accountant.windowPercent(50_000)).toBe(25);
+  });
+
+  it('should ignore sidechain usage', () => {
+    const lines = transcript()
+      .assistant("main").withUsage(usage)
+      .assistant("agent", { isSidechain: true }).withUsage({ input_tokens: 99, output_tokens: 1 })
+      .build();
+
+    expect(new TokenAccountant(lines).lastUsage?.lineIndex).toBe(1);
+  });
+
+  it('should ignore usage recorded before a prune until fresh usage arrives', () => {
+    const lines = transcript()
+      .user("a".repeat(4000))
+      .assistant("b".repeat(4000))
+      .user("c".repeat(4000))
+      .assistant("done").withUsage({ input_tokens: 10, cache_read_input_tokens: 50_000, output_tokens: 5 })
+      .build();
+    const { outLines } = new SmartPruner(lines).pruneWithIndices([3, 4], "test");
+
+    const pruned = new TokenAccountant(outLines);
+    expect(pruned.lastUsage).toBeNull();
+    expect(pruned.contextTokens()).toBe(outLines.reduce((sum, line) => sum + estimateLineTokens(line), 0));
+
+    const resumed = new TokenAccountant([...outLines, ...transcript().assistant("next").withUsage({ input_tokens: 3000, output_tokens: 10 }).build().slice(1)]);
+    expect(resumed.contextTokens()).toBe(3010);
+  });
+});
@@ -0,0 +1,167 @@
+import { MSG_TYPES } from './types';
+
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+// Checked in order; the first matching pattern wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/\[1m\]/i, 1_000_000],
+  [/^claude-/, 200_000]
+];
+
+// Set by the pruner on the last usage block it keeps. Usage recorded before a
+// prune measured lines that are gone, so it and every earlier block are ignored
+// until Claude Code records fresh usage.
+export const STALE_USAGE_FLAG = 'claude_prune_stale';
+
+export interface UsageSnapshot {
+  lineIndex: number;
+  inputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number;
+  total: number;
+}
+
+export function contextWindowFor(model?: string): number {
+  if (!model) return DEFAULT_CONTEXT_WINDOW;
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Rough size of what a line contributes to the prompt: its message content
+ * at ~4 characters per token. Envelope fields (uuids, cwd, usage) are never
+ * sent to the model, and neither are non-message or sidechain lines.
+ */
+export function estimateLineTokens(line: string): number {
+  try {
+    const obj = JSON.parse(line);
+    if (!MSG_TYPES.has(obj.type) || obj.isSidechain) return 0;
+    const content = obj.message?.content ?? obj.content ?? '';
+    const text = typeof content === 'string' ? content : JSON.stringify(content);
+    return Math.ceil(text.length / 4);
+  } catch {
+    return 0;
+  }
+}
+
+export function formatTokens(num: number): string {
+  if (num >= 1000) {
+    return `${(num / 1000).toFixed(1)}k`;
+  }
+  return num.toString();
+}
+
+/** Flag the last main-chain usage block in `lines` as stale, in place. */
+export function markUsageStale(lines: string[]): void {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    try {
+      const obj = JSON.parse(lines[i]);
+      if (obj.type !== 'assistant' || obj.isSidechain) continue;
+      const usage = obj.message?.usage ?? obj.usage;
+      if (!usage) continue;
+      usage[STALE_USAGE_FLAG] = true;
+      lines[i] = JSON.stringify(obj);
+      return;
+    } catch {
+      // Not JSON
+    }
+  }
+}
+
+/**
+ * Token accounting for a transcript. The last assistant `usage` block gives
+ * the real context size; per-line estimates are calibrated against it, and
+ * whatever the estimates cannot explain (system prompt, tool definitions)
+ * is carried as fixed overhead that pruning cannot remove.
+ */
+export class TokenAccountant {
+  public readonly lastUsage: UsageSnapshot | null;
+  public readonly model?: string;
+  public readonly contextWindow: number;
+  public readonly overhead: number;
+  private estimates: number[];
+  private scale: number;
+
+  constructor(lines: string[]) {
+    this.estimates = lines.map(estimateLineTokens);
+
+    let lastUsage: UsageSnapshot | null = null;
+    let model: string | undefined;
+    lines.forEach((line, i) => {
+      try {
+        const obj = JSON.parse(line);
+        if (obj.type !== 'assistant' || obj.isSidechain) return;
+
+        if (typeof obj.message?.model === 'string' && !obj.message.model.startsWith('<')) {
+          model = obj.message.model;
+        }
+
+        const usage = obj.message?.usage ?? obj.usage;
+        if (!usage) return;
+        if (usage[STALE_USAGE_FLAG]) {
+          lastUsage = null;
+          return;
+        }
+        const snapshot = {
+          lineIndex: i,
+          inputTokens: usage.input_tokens ?? 0,
+          cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+          cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+          outputTokens: usage.output_tokens ?? 0,
+          total: 0
+        };
+        snapshot.total = snapshot.inputTokens + snapshot.cacheCreationTokens +
+          snapshot.cacheReadTokens + snapshot.outputTokens;
+        if (snapshot.total > 0) lastUsage = snapshot;
+      } catch {
+        // Not JSON
+      }
+    });
+
+    this.lastUsage = lastUsage;
+    this.model = model;
+    this.contextWindow = contextWindowFor(model);
+
+    const estimated = this.estimates.reduce((sum, t) => sum + t, 0);
+    const actual = lastUsage ? (lastUsage as UsageSnapshot).total : estimated;
+    if (estimated > 0 && actual < estimated) {
+      this.scale = actual / estimated;
+      this.overhead = 0;
+    } else {
+      this.scale = 1;
+      this.overhead = actual - estimated;
+    }
+  }
+
+  /** Estimated tokens attributed to one line, calibrated against real usage. */
+  public lineTokens(index: number): number {
+    return Math.round((this.estimates[index] ?? 0) * this.scale);
+  }
+
+  /** Calibrated tokens for `chars` characters of message content, such as a trimmed or elided output. */
+  public charsToTokens(chars: number): number {
+    return Math.round(Math.ceil(chars / 4) * this.scale);
+  }
+
+  /** Current context size: real usage when known, otherwise the estimate. */
+  public contextTokens(): number {
+    return this.overhead + this.estimates.reduce((sum, _, i) => sum + this.lineTokens(i), 0);
+  }
+
+  /** Projected context size if only the given lines were kept. */
+  public projectIndices(indices: Iterable<number>): number {
+    let total = this.overhead;
+    for (const i of indices) total += this.lineTokens(i);
+    return total;
+  }
+
+  /** Projected context size of a rewritten transcript. */
+  public projectLines(lines: string[]): number {
+    return this.overhead + lines.reduce((sum, line) => sum + Math.round(estimateLineTokens(line) * this.scale), 0);
+  }
+
+  public windowPercent(tokens: number): number {
+    return Math.round((tokens / this.contextWindow) * 100);
+  }
+}
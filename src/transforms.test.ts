@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import type { StaleRead } from './analyzer';
+import {
+  describeImage,
+  elideStaleReads,
+  emptyStaleReadStats,
+  emptyStripStats,
+  emptyTrimStats,
+  stripImages,
+  stripThinking,
+  trimText,
+  trimToolResults
+} from './transforms';
+
+describe('trimText', () => {
+  const numbered = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join('\n');
+
+  it('should leave short text alone', () => {
+    expect(trimText(numbered(10), 10)).toBeNull();
+  });
+
+  it('should keep head and tail around a marker', () => {
+    const result = trimText(numbered(5000), 4)!;
+
+    expect(result.elided).toBe(4996);
+    expect(result.text.split('\n')).toEqual([
+      'line 1',
+      'line 2',
+      '[... 4,996 lines elided by claude-prune ...]',
+      'line 4999',
+      'line 5000'
+    ]);
+  });
+
+  it('should handle a single-line budget', () => {
+    const result = trimText(numbered(3), 1)!;
+
+    expect(result.text).toBe('line 1\n[... 2 lines elided by claude-prune ...]');
+  });
+});
+
+describe('trimToolResults', () => {
+  const longOutput = Array.from({ length: 300 }, (_, i) => `row ${i}`).join('\n');
+
+  it('should trim string and text-block tool_result content', () => {
+    const obj = {
+      type: 'user',
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'a', content: longOutput },
+          { type: 'tool_result', tool_use_id: 'b', content: [{ type: 'text', text: longOutput }] },
+          { type: 'tool_result', tool_use_id: 'c', content: 'short' }
+        ]
+      }
+    };
+    const stats = emptyTrimStats();
+
+    expect(trimToolResults(obj, 100, stats)).toBe(true);
+    expect(stats.results).toBe(2);
+    expect(stats.linesElided).toBe(400);
+    expect(stats.charsSaved).toBeGreaterThan(0);
+    expect(obj.message.content[0].content).toContain('[... 200 lines elided by claude-prune ...]');
+    expect(obj.message.content[2].content).toBe('short');
+  });
+
+  it('should not touch text written by the user or assistant', () => {
+    const obj = { type: 'assistant', message: { content: [{ type: 'text', text: longOutput }] } };
+
+    expect(trimToolResults(obj, 10, emptyTrimStats())).toBe(false);
+    expect(obj.message.content[0].text).toBe(longOutput);
+  });
+});
+
+describe('elideStaleReads', () => {
+  const stale = (toolUseId: string, path: string, supersededBy: 'read' | 'edit'): StaleRead =>
+    ({ path, toolUseId, readIndex: 1, resultIndex: 2, supersededBy, tokens: 0 });
+
+  it('should replace stale result bodies with a note and count savings per file', () => {
+    const obj = {
+      type: 'user',
+      message: {
+        content: [
+          { type: 'tool_result', tool_use_id: 'a', content: 'x'.repeat(1000) },
+          { type: 'tool_result', tool_use_id: 'b', content: 'fresh' }
+        ]
+      }
+    };
+    const stats = emptyStaleReadStats();
+    const map = new Map([['a', stale('a', '/src/app.ts', 'edit')]]);
+
+    expect(elideStaleReads(obj, map, stats)).toBe(true);
+    expect(obj.message.content[0].content).toBe(
+      '[Earlier contents of /src/app.ts elided by claude-prune: the file was modified later in the session]'
+    );
+    expect(obj.message.content[1].content).toBe('fresh');
+    expect(stats.results).toBe(1);
+    expect(stats.files['/src/app.ts'].reads).toBe(1);
+    expect(stats.files['/src/app.ts'].charsSaved).toBe(stats.charsSaved);
+    expect(stats.charsSaved).toBeGreaterThan(800);
+  });
+});
+
+describe('stripThinking', () => {
+  it('should remove thinking and redacted_thinking blocks only', () => {
+    const obj = {
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'thinking', thinking: 'hmm', signature: 'sig' },
+          { type: 'redacted_thinking', data: 'xyz' },
+          { type: 'text', text: 'answer' }
+        ]
+      }
+    };
+    const stats = emptyStripStats();
+
+    expect(stripThinking(obj, stats)).toBe(true);
+    expect(obj.message.content).toEqual([{ type: 'text', text: 'answer' }]);
+    expect(stats.thinkingBlocks).toBe(2);
+    expect(stats.thinkingBytes).toBeGreaterThan(0);
+  });
+
+  it('should leave string content alone', () => {
+    expect(stripThinking({ type: 'user', message: { content: 'hi' } }, emptyStripStats())).toBe(false);
+  });
+});
+
+describe('stripImages', () => {
+  const image = { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'A'.repeat(4096) } };
+
+  it('should describe an image by type and decoded size', () => {
+    expect(describeImage(image as any)).toBe('[image/png image, 3.0 KB, removed by claude-prune]');
+  });
+
+  it('should replace top-level and tool_result images with placeholders', () => {
+    const obj = {
+      type: 'user',
+      message: {
+        content: [
+          image,
+          { type: 'tool_result', tool_use_id: 'a', content: [image, { type: 'text', text: 'caption' }] }
+        ]
+      }
+    };
+    const stats = emptyStripStats();
+
+    expect(stripImages(obj, stats)).toBe(true);
+    expect(obj.message.content[0]).toEqual({ type: 'text', text: '[image/png image, 3.0 KB, removed by claude-prune]' });
+    expect((obj.message.content[1] as any).content.map((b: any) => b.type)).toEqual(['text', 'text']);
+    expect(stats.images).toBe(2);
+    expect(stats.imageBytes).toBeGreaterThan(8000);
+  });
+});
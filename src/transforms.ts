@@ -0,0 +1,173 @@
+import type { StaleRead } from './analyzer';
+import { getContentBlocks, type ImageBlock, type ToolResultBlock } from './content';
+
+// Content-level rewrites applied to kept lines. Each takes a parsed line,
+// mutates it in place and reports what it removed.
+
+export const DEFAULT_TRIM_LINES = 200;
+
+export interface TrimStats {
+  results: number;     // tool_result blocks that were shortened
+  linesElided: number;
+  charsSaved: number;
+}
+
+export function emptyTrimStats(): TrimStats {
+  return { results: 0, linesElided: 0, charsSaved: 0 };
+}
+
+/**
+ * Keep the first and last lines of `text` so that at most `maxLines` remain,
+ * with a marker in between. Returns null when the text is already short enough.
+ */
+export function trimText(text: string, maxLines: number): { text: string; elided: number } | null {
+  const lines = text.split('\n');
+  if (lines.length <= maxLines) return null;
+
+  const head = Math.ceil(maxLines / 2);
+  const tail = Math.floor(maxLines / 2);
+  const elided = lines.length - head - tail;
+  const marker = `[... ${elided.toLocaleString('en-US')} lines elided by claude-prune ...]`;
+
+  return {
+    text: [...lines.slice(0, head), marker, ...(tail > 0 ? lines.slice(-tail) : [])].join('\n'),
+    elided
+  };
+}
+
+/** Shorten every oversized tool_result text in a parsed line. */
+export function trimToolResults(obj: any, maxLines: number, stats: TrimStats): boolean {
+  let changed = false;
+
+  for (const block of getContentBlocks(obj)) {
+    if (block.type !== 'tool_result') continue;
+    const result = block as ToolResultBlock;
+    let trimmedAny = false;
+
+    const trim = (text: string): string => {
+      const trimmed = trimText(text, maxLines);
+      if (!trimmed) return text;
+      stats.linesElided += trimmed.elided;
+      stats.charsSaved += text.length - trimmed.text.length;
+      trimmedAny = true;
+      return trimmed.text;
+    };
+
+    if (typeof result.content === 'string') {
+      result.content = trim(result.content);
+    } else if (Array.isArray(result.content)) {
+      result.content.forEach(part => {
+        if (part?.type === 'text') part.text = trim(part.text);
+      });
+    }
+
+    if (trimmedAny) {
+      stats.results++;
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+export interface StaleReadStats {
+  results: number;
+  charsSaved: number;
+  files: Record<string, { reads: number; charsSaved: number }>;
+}
+
+export function emptyStaleReadStats(): StaleReadStats {
+  return { results: 0, charsSaved: 0, files: {} };
+}
+
+/** Replace the bodies of stale Read results with a short note; the tool_use stub stays. */
+export function elideStaleReads(obj: any, stale: Map<string, StaleRead>, stats: StaleReadStats): boolean {
+  let changed = false;
+
+  for (const block of getContentBlocks(obj)) {
+    if (block.type !== 'tool_result') continue;
+    const read = stale.get(block.tool_use_id);
+    if (!read) continue;
+
+    const before = JSON.stringify(block.content ?? '').length;
+    block.content = `[Earlier contents of ${read.path} elided by claude-prune: ` +
+      `the file was ${read.supersededBy === 'edit' ? 'modified' : 're-read'} later in the session]`;
+    const saved = Math.max(0, before - JSON.stringify(block.content).length);
+
+    const file = stats.files[read.path] ?? (stats.files[read.path] = { reads: 0, charsSaved: 0 });
+    file.reads++;
+    file.charsSaved += saved;
+    stats.results++;
+    stats.charsSaved += saved;
+    changed = true;
+  }
+
+  return changed;
+}
+
+// Thinking blocks and images in the most recent turns are left alone
+export const DEFAULT_STRIP_TURNS = 2;
+
+export interface StripStats {
+  thinkingBlocks: number;
+  thinkingBytes: number;
+  thinkingOnlyLines: number; // Kept lines left empty by stripping, removed rather than kept or dropped
+  images: number;
+  imageBytes: number;
+}
+
+export function emptyStripStats(): StripStats {
+  return { thinkingBlocks: 0, thinkingBytes: 0, thinkingOnlyLines: 0, images: 0, imageBytes: 0 };
+}
+
+/** Remove thinking blocks. A line left with no content should be dropped by the caller. */
+export function stripThinking(obj: any, stats: StripStats): boolean {
+  const content = obj?.message?.content;
+  if (!Array.isArray(content)) return false;
+
+  const kept = content.filter((b: any) => {
+    if (b?.type !== 'thinking' && b?.type !== 'redacted_thinking') return true;
+    stats.thinkingBlocks++;
+    stats.thinkingBytes += JSON.stringify(b).length;
+    return false;
+  });
+  if (kept.length === content.length) return false;
+
+  obj.message.content = kept;
+  return true;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+/** Placeholder text for a removed image; base64 data decodes to 3/4 of its length. */
+export function describeImage(block: ImageBlock): string {
+  const mediaType = block.source?.media_type || 'image';
+  const bytes = Math.floor(((block.source?.data?.length ?? 0) * 3) / 4);
+  return `[${mediaType} image, ${formatBytes(bytes)}, removed by claude-prune]`;
+}
+
+/** Replace image blocks, including those inside tool results, with a text placeholder. */
+export function stripImages(obj: any, stats: StripStats): boolean {
+  let changed = false;
+
+  const replace = (blocks: any[]) => blocks.map(b => {
+    if (b?.type !== 'image') return b;
+    const placeholder = { type: 'text', text: describeImage(b) };
+    stats.images++;
+    stats.imageBytes += JSON.stringify(b).length - JSON.stringify(placeholder).length;
+    changed = true;
+    return placeholder;
+  });
+
+  const content = obj?.message?.content;
+  if (!Array.isArray(content)) return false;
+
+  obj.message.content = replace(content).map((b: any) =>
+    b?.type === 'tool_result' && Array.isArray(b.content) ? { ...b, content: replace(b.content) } : b
+  );
+  return changed;
+}
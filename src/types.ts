@@ -1,16 +1,21 @@
+import type { SessionAnalyzer } from './analyzer';
+
 export const MSG_TYPES = new Set(["user", "assistant", "system"]);
 
 export interface PruneStrategy {
   name: string;
   description: string;
-  getIndicesToKeep(analyzer: any): number[];
+  interactive?: boolean; // Offered in the interactive menu (default true)
+  label?(analyzer: SessionAnalyzer, options?: PruneOptions): string;
+  getIndicesToKeep(analyzer: SessionAnalyzer, options?: PruneOptions): number[];
 }
 
 export interface PruneOptions {
   keep?: number;
   first?: number;
   last?: number;
+  ratio?: number; // Share of messages kept by the recent strategy
   strategy?: string;
   dryRun?: boolean;
   interactive?: boolean;
-}
\ No newline at end of file
+}
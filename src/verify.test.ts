@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { SmartPruner } from './pruner';
+import { fixTranscript, introducedErrors, verifyTranscript } from './verify';
+import { transcript } from './test-fixtures';
+
+const codes = (lines: string[]) => verifyTranscript(lines).map(i => [i.line, i.code]);
+
+describe('verifyTranscript', () => {
+  it('should find nothing wrong with a well-formed session', () => {
+    const lines = transcript()
+      .user("Fix the build")
+      .tool("Bash", { command: "npm run build" }, "ok")
+      .assistant("Fixed")
+      .build();
+
+    expect(verifyTranscript(lines)).toEqual([]);
+  });
+
+  it('should report unparseable, blank and duplicated metadata lines as fixable', () => {
+    const lines = transcript().user("hi").build();
+    lines.push('', lines[0], '{"type":"user",', '');
+
+    const issues = verifyTranscript(lines);
+
+    expect(issues.map(i => [i.line, i.code, i.severity, i.fixable])).toEqual([
+      [3, 'blank-line', 'warning', true],
+      [4, 'duplicate-metadata', 'error', true],
+      [5, 'unparseable', 'error', true]
+    ]);
+    expect(issues[2].message).toContain('{"type":"user",');
+  });
+
+  it('should report dangling parents and unpaired tool calls', () => {
+    const lines = transcript()
+      .user("Run it", { parentUuid: 'gone' })
+      .assistant([{ type: 'tool_use', id: 'toolu_a', name: 'Bash', input: {} }])
+      .user([{ type: 'tool_result', tool_use_id: 'toolu_b', content: 'ok' }])
+      .build();
+
+    expect(codes(lines)).toEqual([
+      [2, 'dangling-parent'],
+      [3, 'unanswered-tool-use'],
+      [4, 'orphan-tool-result']
+    ]);
+    expect(verifyTranscript(lines)[0].message).toBe('parentUuid gone is not in the file');
+  });
+
+  it('should warn about a message first, timestamps going back and foreign session ids', () => {
+    const lines = transcript()
+      .user("one")
+      .user("two", { timestamp: '2024-01-01T00:00:00.000Z', sessionId: 'other' })
+      .user("three")
+      .build()
+      .slice(1);
+
+    expect(codes(lines)).toEqual([
+      [1, 'missing-metadata'],
+      [2, 'timestamp-order'],
+      [2, 'mixed-session-id']
+    ]);
+  });
+});
+
+describe('fixTranscript', () => {
+  it('should remove the lines behind fixable issues only', () => {
+    const lines = transcript().user("hi", { parentUuid: 'gone' }).build();
+    lines.push('not json', lines[0], '');
+
+    const { lines: repaired, fixed } = fixTranscript(lines);
+
+    expect(repaired).toEqual([lines[0], lines[1], '']);
+    expect(fixed.map(i => i.code)).toEqual(['unparseable', 'duplicate-metadata']);
+    expect(codes(repaired)).toEqual([[2, 'dangling-parent']]);
+  });
+});
+
+describe('introducedErrors', () => {
+  it('should ignore errors the original already had, wherever they moved', () => {
+    const lines = transcript()
+      .user("old", { parentUuid: 'gone' })
+      .user("kept")
+      .build();
+    const pruned = new SmartPruner(lines).pruneWithIndices([2], 'test').outLines;
+
+    expect(introducedErrors(verifyTranscript(lines), verifyTranscript(pruned))).toEqual([]);
+  });
+
+  it('should report errors the pruned version adds', () => {
+    const lines = transcript().user("a").user("b").build();
+    const broken = [lines[0], lines[2].replace('"parentUuid":"uuid-1"', '"parentUuid":"uuid-9"')];
+
+    expect(introducedErrors(verifyTranscript(lines), verifyTranscript(broken)).map(i => i.code)).toEqual(['dangling-parent']);
+  });
+});
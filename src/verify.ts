@@ -0,0 +1,135 @@
+import { getToolResults, getToolUses } from './content';
+import { MSG_TYPES } from './types';
+
+// Structural checks for a transcript. Errors are problems Claude Code or the
+// API trips over on resume; warnings are oddities that also occur in
+// untouched sessions. Messages never mention line numbers, so the issues of
+// two versions of a file can be compared.
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'unparseable'
+  | 'blank-line'
+  | 'missing-metadata'
+  | 'duplicate-metadata'
+  | 'dangling-parent'
+  | 'orphan-tool-result'
+  | 'unanswered-tool-use'
+  | 'timestamp-order'
+  | 'mixed-session-id';
+
+export interface TranscriptIssue {
+  line: number; // 1-based
+  severity: IssueSeverity;
+  code: IssueCode;
+  message: string;
+  fixable: boolean; // fixTranscript can repair it by removing the line
+}
+
+/** Every issue found in a transcript, in line order. Blank lines still count toward line numbers. */
+export function verifyTranscript(lines: string[]): TranscriptIssue[] {
+  const issues: TranscriptIssue[] = [];
+  const report = (index: number, severity: IssueSeverity, code: IssueCode, message: string, fixable = false) =>
+    issues.push({ line: index + 1, severity, code, message, fixable });
+
+  const messages: { index: number; obj: any }[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      // A trailing newline is not a blank line
+      if (index < lines.length - 1) report(index, 'warning', 'blank-line', 'Blank line', true);
+      return;
+    }
+    if (index > 0 && line === lines[0]) {
+      report(index, 'error', 'duplicate-metadata', 'Copy of the metadata line', true);
+      return;
+    }
+
+    let obj: any;
+    try {
+      obj = JSON.parse(line);
+    } catch (error) {
+      report(index, 'error', 'unparseable', `Not valid JSON (${(error as Error).message}): ${excerpt(line)}`, true);
+      return;
+    }
+    if (MSG_TYPES.has(obj?.type)) messages.push({ index, obj });
+  });
+
+  if (messages[0]?.index === 0) {
+    report(0, 'warning', 'missing-metadata', 'The first line is a message; claude-prune always keeps the first line as is');
+  }
+
+  const uuids = new Set(messages.map(m => m.obj.uuid).filter(u => typeof u === 'string'));
+  const toolUses = new Set(messages.flatMap(m => getToolUses(m.obj).map(b => b.id)));
+  const toolResults = new Set(messages.flatMap(m => getToolResults(m.obj).map(b => b.tool_use_id)));
+  const sessionIds = countSessionIds(messages.map(m => m.obj));
+  const mainSessionId = [...sessionIds].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  let lastTime = -Infinity;
+  for (const { index, obj } of messages) {
+    if (typeof obj.parentUuid === 'string' && !uuids.has(obj.parentUuid)) {
+      report(index, 'error', 'dangling-parent', `parentUuid ${obj.parentUuid} is not in the file`);
+    }
+
+    for (const block of getToolResults(obj)) {
+      if (!toolUses.has(block.tool_use_id)) {
+        report(index, 'error', 'orphan-tool-result', `tool_result for ${block.tool_use_id} has no matching tool_use`);
+      }
+    }
+    for (const block of getToolUses(obj)) {
+      if (!toolResults.has(block.id)) {
+        report(index, 'warning', 'unanswered-tool-use', `tool_use ${block.id} (${block.name}) has no tool_result`);
+      }
+    }
+
+    const time = typeof obj.timestamp === 'string' ? Date.parse(obj.timestamp) : NaN;
+    if (!isNaN(time)) {
+      if (time < lastTime) {
+        report(index, 'warning', 'timestamp-order', `${obj.uuid ?? 'Message'} at ${obj.timestamp} is older than the message before it`);
+      }
+      lastTime = Math.max(lastTime, time);
+    }
+
+    if (typeof obj.sessionId === 'string' && obj.sessionId !== mainSessionId) {
+      report(index, 'warning', 'mixed-session-id', `sessionId ${obj.sessionId} differs from the session's ${mainSessionId}`);
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/** Remove the lines behind fixable issues. Returns the repaired lines and what was fixed. */
+export function fixTranscript(lines: string[]): { lines: string[]; fixed: TranscriptIssue[] } {
+  const fixed = verifyTranscript(lines).filter(issue => issue.fixable);
+  const removed = new Set(fixed.map(issue => issue.line - 1));
+  return { lines: lines.filter((_, i) => !removed.has(i)), fixed };
+}
+
+/** Errors in `after` that `before` did not already have, wherever they moved to. */
+export function introducedErrors(before: TranscriptIssue[], after: TranscriptIssue[]): TranscriptIssue[] {
+  const existing = new Map<string, number>();
+  for (const issue of before) {
+    const key = `${issue.code}:${issue.message}`;
+    existing.set(key, (existing.get(key) ?? 0) + 1);
+  }
+
+  return after.filter(issue => {
+    if (issue.severity !== 'error') return false;
+    const key = `${issue.code}:${issue.message}`;
+    const remaining = existing.get(key) ?? 0;
+    existing.set(key, remaining - 1);
+    return remaining <= 0;
+  });
+}
+
+function countSessionIds(objs: any[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const obj of objs) {
+    if (typeof obj.sessionId === 'string') counts.set(obj.sessionId, (counts.get(obj.sessionId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function excerpt(line: string): string {
+  return line.length > 60 ? line.slice(0, 59) + '…' : line;
+}
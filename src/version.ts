@@ -0,0 +1,2 @@
+// Keep in sync with package.json; index.test.ts checks that it is
+export const VERSION = '2.0.1';